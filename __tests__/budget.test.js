@@ -0,0 +1,56 @@
+const { estimateTokens, rankPath, getDiffTokenBudget, parseDiff, trimFileDiff, budgetDiff } = require('../lib/budget');
+
+const fileDiff = (path, lines, context = '') => [
+  `diff --git a/${path} b/${path}`,
+  'index 1111111..2222222 100644',
+  `--- a/${path}`,
+  `+++ b/${path}`,
+  `@@ -1,1 +1,${lines} @@${context}`,
+  ...Array.from({ length: lines }, (_, i) => `+line ${i} of ${path}`)
+].join('\n');
+
+describe('budget', () => {
+  test('estimates about four characters per token', () => {
+    expect(estimateTokens('a'.repeat(400))).toBe(100);
+  });
+
+  test('ranks source above tests, docs and lockfiles', () => {
+    expect(rankPath('lib/cache.ts')).toBe(0);
+    expect(rankPath('__tests__/cache.test.js')).toBe(1);
+    expect(rankPath('README.md')).toBe(2);
+    expect(rankPath('package-lock.json')).toBe(3);
+    expect(rankPath('__snapshots__/a.test.js.snap')).toBe(3);
+    expect(rankPath('public/app.min.js')).toBe(3);
+  });
+
+  test('picks a budget for the model', () => {
+    expect(getDiffTokenBudget('gemini', 'gemini-1.5-pro')).toBeGreaterThan(getDiffTokenBudget('ollama', 'llama3.1'));
+    expect(getDiffTokenBudget('ollama', 'my-custom-model')).toBeLessThan(getDiffTokenBudget('openai', 'my-custom-model'));
+  });
+
+  test('parses files and hunks, dropping index lines', () => {
+    const [file] = parseDiff(fileDiff('a.ts', 3, ' function main()'));
+    expect(file.path).toBe('a.ts');
+    expect(file.header).not.toContain('index 1111111..2222222 100644');
+    expect(file.hunks[0].header).toBe('@@ -1,1 +1,3 @@ function main()');
+    expect(file.additions).toBe(3);
+  });
+
+  test('keeps hunk headers with function context when trimming', () => {
+    const [file] = parseDiff(fileDiff('a.ts', 200, ' function main()'));
+    const text = trimFileDiff(file, 100);
+    expect(text).toContain('@@ -1,1 +1,200 @@ function main()');
+    expect(text).toMatch(/\[\d+ changed line\(s\) omitted\]/);
+    expect(estimateTokens(text)).toBeLessThanOrEqual(110);
+  });
+
+  test('spends the budget on source before lockfiles and lists dropped files', () => {
+    const diff = [fileDiff('package-lock.json', 500), fileDiff('lib/a.ts', 20)].join('\n');
+    const out = budgetDiff([{ title: null, diff }], 400);
+    expect(out).toContain('+line 19 of lib/a.ts');
+    expect(out).not.toContain('line 100 of package-lock.json');
+
+    const tiny = budgetDiff([{ title: null, diff }], 40);
+    expect(tiny).toContain('- package-lock.json (+500/-0)');
+  });
+});
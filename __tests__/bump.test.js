@@ -0,0 +1,99 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { useRepo } = require('./helpers/repo');
+const { parseVersion, formatVersion, compareVersions, incrementVersion, recommendRelease, collectBump, formatBump, applyBump } = require('../lib/bump');
+
+const commit = (sha, message) => ({ sha: sha.repeat(40), message });
+
+describe('bump', () => {
+  test('parses, compares and increments versions', () => {
+    expect(parseVersion('v1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: null });
+    expect(formatVersion(parseVersion('1.2.3-beta.2+build.5'))).toBe('1.2.3-beta.2');
+    expect(parseVersion('release-1')).toBeNull();
+
+    const sorted = ['1.10.0', '1.2.0', '1.10.0-rc.1', '1.10.0-rc.10', '1.10.0-rc.2']
+      .map(parseVersion).sort(compareVersions).map(formatVersion);
+    expect(sorted).toEqual(['1.2.0', '1.10.0-rc.1', '1.10.0-rc.2', '1.10.0-rc.10', '1.10.0']);
+
+    const v = parseVersion('1.2.3');
+    expect(formatVersion(incrementVersion(v, 'major'))).toBe('2.0.0');
+    expect(formatVersion(incrementVersion(v, 'minor'))).toBe('1.3.0');
+    expect(formatVersion(incrementVersion(v, 'patch'))).toBe('1.2.4');
+    expect(formatVersion(incrementVersion(parseVersion('2.0.0-rc.1'), 'major'))).toBe('2.0.0');
+    expect(formatVersion(incrementVersion(parseVersion('2.0.0-rc.1'), 'patch'))).toBe('2.0.0');
+  });
+
+  test('breaking changes are major, features minor and the rest patch', () => {
+    expect(recommendRelease([commit('a', 'fix: a'), commit('b', 'docs: b')]).release).toBe('patch');
+    expect(recommendRelease([commit('a', 'chore: a')])).toEqual({ release: 'patch', reasons: { major: [], minor: [], patch: [] }, other: 1 });
+    expect(recommendRelease([commit('a', 'fix: a'), commit('b', 'feat(ui): b')]).release).toBe('minor');
+
+    const major = recommendRelease([commit('a', 'feat!: a'), commit('b', 'refactor: b\n\nBREAKING CHANGE: gone'), commit('c', 'feat: c')]);
+    expect(major.release).toBe('major');
+    expect(major.reasons.major.map(c => c.header)).toEqual(['feat!: a', 'refactor: b']);
+    expect(major.reasons.minor.map(c => c.header)).toEqual(['feat: c']);
+
+    expect(recommendRelease([commit('a', 'Merge branch \'x\'')]).release).toBeNull();
+    expect(recommendRelease([]).release).toBeNull();
+  });
+
+  describe('in a repository', () => {
+    const { dir: repo, git, commitFile } = useRepo('bump');
+
+    beforeAll(() => {
+      fs.writeFileSync('package.json', '{\n    "name": "demo",\n    "version": "0.3.0"\n}\n');
+      git('add', 'package.json');
+      commitFile('a.txt', 'chore: init');
+    });
+
+    test('starts from package.json without a version tag', () => {
+      const rec = collectBump();
+      expect(rec).toMatchObject({ tag: null, current: '0.3.0', release: 'patch', next: '0.3.1', nextTag: 'v0.3.1', commits: 1 });
+    });
+
+    test('recommends from the newest semver tag and explains why', () => {
+      git('tag', 'v0.9.0');
+      git('tag', 'v1.0.0');
+      git('tag', 'nightly');
+      expect(collectBump()).toMatchObject({ tag: 'v1.0.0', release: null, next: null, commits: 0 });
+      expect(formatBump(collectBump())).toContain('Nothing to release.');
+
+      commitFile('b.txt', 'fix: b');
+      commitFile('c.txt', 'feat(api): c');
+      const rec = collectBump();
+      expect(rec).toMatchObject({ tag: 'v1.0.0', current: '1.0.0', release: 'minor', next: '1.1.0', nextTag: 'v1.1.0', commits: 2 });
+      const lines = formatBump(rec);
+      expect(lines[1]).toBe('Recommended: minor -> 1.1.0 (tag v1.1.0)');
+      expect(lines).toContain('Features (minor):');
+      expect(lines.some(line => line.endsWith(' feat(api): c'))).toBe(true);
+    });
+
+    test('applies the bump to package.json and tags the release commit', () => {
+      fs.appendFileSync('a.txt', 'dirty\n');
+      expect(() => applyBump(collectBump())).toThrow(/Commit or stash/);
+      git('checkout', '-q', 'a.txt');
+
+      const result = applyBump(collectBump());
+      expect(result.files.map(f => path.basename(f))).toEqual(['package.json']);
+      expect(fs.readFileSync('package.json', 'utf8')).toBe('{\n    "name": "demo",\n    "version": "1.1.0"\n}\n');
+      expect(git('log', '-1', '--format=%s')).toBe('chore(release): v1.1.0');
+      expect(git('describe', '--tags', '--exact-match')).toBe('v1.1.0');
+      expect(collectBump().release).toBeNull();
+      expect(() => applyBump(collectBump())).toThrow(/Nothing to release/);
+    });
+
+    test('works on the repository at cwd, not the process directory', () => {
+      commitFile('d.txt', 'fix: d');
+      process.chdir(os.tmpdir());
+      try {
+        const rec = collectBump(repo);
+        expect(rec).toMatchObject({ tag: 'v1.1.0', next: '1.1.1', commits: 1 });
+        applyBump(rec, repo);
+      } finally {
+        process.chdir(repo);
+      }
+      expect(git('describe', '--tags', '--exact-match')).toBe('v1.1.1');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'gcm-cache-test-'));
+// Jest's process.env is a copy, so point os.homedir() at the temp dir directly
+jest.spyOn(os, 'homedir').mockReturnValue(home);
+
+const {
+  buildCacheKey,
+  getCachedMessage,
+  getCachedMessages,
+  cacheMessage,
+  cacheMessages,
+  enforceCacheLimits,
+  clearAllCache,
+  getCacheStats
+} = require('../lib/cache');
+
+const baseKey = {
+  provider: 'gemini',
+  model: 'gemini-pro',
+  template: 'default',
+  templateContent: 'tpl',
+  options: { stagedOnly: false },
+  diff: '',
+  files: ['a.txt'],
+  fileHashes: ['111']
+};
+
+describe('cache', () => {
+  afterEach(() => {
+    clearAllCache();
+  });
+
+  afterAll(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('buildCacheKey', () => {
+    test('changes with model, template and file contents', () => {
+      const key = buildCacheKey(baseKey);
+      expect(buildCacheKey({ ...baseKey, model: 'other' })).not.toBe(key);
+      expect(buildCacheKey({ ...baseKey, templateContent: 'edited' })).not.toBe(key);
+      expect(buildCacheKey({ ...baseKey, fileHashes: ['222'] })).not.toBe(key);
+    });
+
+    test('ignores file and option ordering', () => {
+      const a = buildCacheKey({ ...baseKey, files: ['a', 'b'], options: { x: 1, y: 2 } });
+      const b = buildCacheKey({ ...baseKey, files: ['b', 'a'], options: { y: 2, x: 1 } });
+      expect(a).toBe(b);
+    });
+  });
+
+  test('stores and reads messages', () => {
+    cacheMessage('k1', 'feat: one');
+    expect(getCachedMessage('k1')).toBe('feat: one');
+    expect(getCachedMessage('missing')).toBeNull();
+  });
+
+  test('stores candidate sets', () => {
+    cacheMessages('set', ['feat: one', 'fix: two']);
+    expect(getCachedMessages('set')).toEqual(['feat: one', 'fix: two']);
+    expect(getCachedMessage('set')).toBe('feat: one');
+    cacheMessage('single', 'feat: only');
+    expect(getCachedMessages('single')).toEqual(['feat: only']);
+  });
+
+  test('evicts least recently used entries over the entry cap', () => {
+    const nowSpy = jest.spyOn(Date, 'now');
+    nowSpy.mockReturnValue(1000);
+    cacheMessage('old', 'a');
+    nowSpy.mockReturnValue(2000);
+    cacheMessage('newer', 'b');
+    nowSpy.mockReturnValue(3000);
+    getCachedMessage('old'); // touch, so "newer" is now least recently used
+    nowSpy.mockRestore();
+
+    expect(enforceCacheLimits(1, Infinity)).toBe(1);
+    expect(getCacheStats().entries).toBe(1);
+    expect(getCachedMessage('newer')).toBeNull();
+  });
+});
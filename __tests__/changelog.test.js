@@ -0,0 +1,100 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { useRepo } = require('./helpers/repo');
+const { buildChangelog, formatChangelog, prependChangelog, resolveChangelogRange, collectChangelog } = require('../lib/changelog');
+const { getLatestTag, getTagsAt, getCommitDate } = require('../lib/git');
+
+const range = { from: 'v1.0.0', to: 'HEAD', title: 'v1.1.0' };
+const commits = [
+  { sha: 'a'.repeat(40), message: 'fix: handle empty ranges' },
+  { sha: 'b'.repeat(40), message: 'feat(cli): add changelog command' },
+  { sha: 'c'.repeat(40), message: 'feat(api)!: rename config keys\n\nBREAKING CHANGE: `model` is now `models`' },
+  { sha: 'd'.repeat(40), message: 'chore: bump deps' },
+  { sha: 'e'.repeat(40), message: 'feat: support tags' },
+  { sha: 'f'.repeat(40), message: 'wip' },
+  { sha: '1'.repeat(40), message: 'Merge branch \'main\' into feature' }
+];
+
+describe('changelog', () => {
+  test('groups commits by type, scope first, with breaking changes apart', () => {
+    const changelog = buildChangelog(commits, range, '2024-05-01');
+    expect(changelog.sections.map(s => s.title)).toEqual(['Features', 'Bug Fixes']);
+    expect(changelog.sections[0].entries.map(e => e.description)).toEqual(['rename config keys', 'add changelog command', 'support tags']);
+    expect(changelog.breaking.map(e => e.breaking)).toEqual(['`model` is now `models`']);
+    expect(changelog.skipped).toBe(1);
+
+    const all = buildChangelog(commits, range, '2024-05-01', true);
+    expect(all.sections.map(s => s.type)).toEqual(['feat', 'fix', 'chore']);
+  });
+
+  test('formats a markdown release section', () => {
+    expect(formatChangelog(buildChangelog(commits, range, '2024-05-01'))).toBe([
+      '## v1.1.0 (2024-05-01)',
+      '',
+      '### ⚠ BREAKING CHANGES',
+      '',
+      '- **api:** `model` is now `models` (ccccccc)',
+      '',
+      '### Features',
+      '',
+      '- **api:** rename config keys (ccccccc)',
+      '- **cli:** add changelog command (bbbbbbb)',
+      '- support tags (eeeeeee)',
+      '',
+      '### Bug Fixes',
+      '',
+      '- handle empty ranges (aaaaaaa)',
+      ''
+    ].join('\n'));
+    expect(formatChangelog(buildChangelog([commits[3], commits[5]], range, '2024-05-01'))).toContain('No notable changes.');
+  });
+
+  test('prepends releases below the title and replaces Unreleased', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gcm-changelog-test-'));
+    const file = path.join(dir, 'CHANGELOG.md');
+    try {
+      prependChangelog(file, '## Unreleased (2024-04-01)\n\n- early\n', 'Unreleased');
+      expect(fs.readFileSync(file, 'utf8')).toBe('# Changelog\n\n## Unreleased (2024-04-01)\n\n- early\n');
+
+      fs.appendFileSync(file, '\n## v1.0.0 (2024-01-01)\n\n- first\n');
+      prependChangelog(file, '## v1.1.0 (2024-05-01)\n\n- new\n', 'v1.1.0');
+      expect(fs.readFileSync(file, 'utf8')).toBe('# Changelog\n\n## v1.1.0 (2024-05-01)\n\n- new\n\n## v1.0.0 (2024-01-01)\n\n- first\n');
+      expect(() => prependChangelog(file, '## v1.0.0\n', 'v1.0.0')).toThrow(/already has a section for v1.0.0/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('in a repository', () => {
+    const { git, commitFile } = useRepo('changelog');
+
+    beforeAll(() => {
+      commitFile('a.txt', 'feat: first');
+      git('tag', 'v1.0.0');
+      commitFile('b.txt', 'fix: second');
+      commitFile('c.txt', 'feat: third');
+    });
+
+    test('reads tags and dates', () => {
+      expect(getLatestTag()).toBe('v1.0.0');
+      expect(getLatestTag('HEAD~2^')).toBeNull();
+      expect(getTagsAt('HEAD~2')).toEqual(['v1.0.0']);
+      expect(getTagsAt()).toEqual([]);
+      expect(getCommitDate()).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+
+    test('defaults to the commits since the last tag', () => {
+      expect(resolveChangelogRange()).toEqual({ from: 'v1.0.0', to: 'HEAD', title: 'Unreleased' });
+      const changelog = collectChangelog();
+      expect(changelog.sections.map(s => s.entries.map(e => e.description))).toEqual([['third'], ['second']]);
+
+      git('tag', 'v1.1.0');
+      expect(resolveChangelogRange()).toEqual({ from: 'v1.0.0', to: 'HEAD', title: 'v1.1.0' });
+      expect(resolveChangelogRange({ to: 'v1.0.0' })).toEqual({ from: null, to: 'v1.0.0', title: 'v1.0.0' });
+      expect(collectChangelog({ to: 'v1.0.0' }).sections[0].entries[0].description).toBe('first');
+      expect(() => collectChangelog({ from: 'HEAD' })).toThrow(/No commits/);
+      expect(() => resolveChangelogRange({ to: 'nope' })).toThrow(/Unknown revision/);
+    });
+  });
+});
@@ -1,7 +1,136 @@
-// Config tests are skipped - they require complex file system mocking
-// These would be better as integration tests with a test harness
-describe.skip('config', () => {
-  test('placeholder - config tests require integration test setup', () => {
-    expect(true).toBe(true);
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'gcm-config-test-'));
+// Jest's process.env is a copy, so point os.homedir() at the temp dir directly
+jest.spyOn(os, 'homedir').mockReturnValue(home);
+['GCM_PROVIDER', 'GCM_MODEL', 'GEMINI_MODEL', 'GCM_BASE_URL', 'GCM_TEMPLATE', 'GCM_STYLE', 'GEMINI_API_KEY']
+  .forEach(name => { delete process.env[name]; });
+
+const { resolveConfig, getRepoConfig, getEffectiveLintConfig, getProviderName, getModel, saveConfig } = require('../lib/config');
+
+describe('layered config', () => {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'gcm-config-repo-'));
+  const globalFile = path.join(home, '.gcm', 'config.json');
+  const rcFile = path.join(repo, '.gcmrc.json');
+
+  beforeAll(() => {
+    execFileSync('git', ['init', '-q', repo]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rcFile, { force: true });
+    fs.rmSync(path.join(repo, 'package.json'), { force: true });
+    fs.rmSync(globalFile, { force: true });
+    delete process.env.GCM_MODEL;
+  });
+
+  afterAll(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  const writeGlobal = (config) => {
+    fs.mkdirSync(path.dirname(globalFile), { recursive: true });
+    fs.writeFileSync(globalFile, JSON.stringify(config));
+  };
+
+  test('applies defaults < global < repo < env < cli', () => {
+    writeGlobal({ apiKey: 'global-key', model: 'global-model', template: 'global' });
+    fs.writeFileSync(rcFile, JSON.stringify({ model: 'repo-model', template: 'repo', style: 'plain' }));
+
+    let resolved = resolveConfig({}, repo);
+    expect(resolved.settings.model).toBe('repo-model');
+    expect(resolved.sources.model).toBe('repo');
+    expect(resolved.settings.apiKey).toBe('global-key');
+    expect(resolved.sources.apiKey).toBe('global');
+    expect(resolved.sources.maxSubjectLength).toBe('default');
+
+    process.env.GCM_MODEL = 'env-model';
+    resolved = resolveConfig({ template: 'cli' }, repo);
+    expect(resolved.settings.model).toBe('env-model');
+    expect(resolved.settings.template).toBe('cli');
+    expect(resolved.sources.template).toBe('cli');
+  });
+
+  test('resolves single settings against the given repository', () => {
+    fs.writeFileSync(rcFile, JSON.stringify({ provider: 'ollama', model: 'repo-model' }));
+    expect(process.cwd()).not.toBe(repo);
+    expect(getProviderName(null, repo)).toBe('ollama');
+    expect(getModel('fallback', 'ollama', repo)).toBe('repo-model');
+    expect(getModel('fallback', 'ollama', home)).toBe('fallback');
+  });
+
+  test('reads the gcm key from package.json', () => {
+    fs.writeFileSync(path.join(repo, 'package.json'), JSON.stringify({ name: 'x', gcm: { scopes: ['api'] } }));
+    const resolved = resolveConfig({}, repo);
+    expect(resolved.settings.scopes).toEqual(['api']);
+    expect(getEffectiveLintConfig(resolved.settings).scopes).toEqual(['api']);
+  });
+
+  test('ignores provider-bound values from a layer for another provider', () => {
+    writeGlobal({ provider: 'openai', apiKey: 'sk-openai', model: 'gpt-4o' });
+    fs.writeFileSync(rcFile, JSON.stringify({ provider: 'ollama' }));
+    const { settings } = resolveConfig({}, repo);
+    expect(settings.provider).toBe('ollama');
+    expect(settings.apiKey).toBeNull();
+    expect(settings.model).not.toBe('gpt-4o');
+  });
+
+  test('rejects secrets and invalid values in the repo config', () => {
+    fs.writeFileSync(rcFile, JSON.stringify({ apiKey: 'nope' }));
+    expect(() => getRepoConfig(repo)).toThrow(/must not contain API keys/);
+    fs.writeFileSync(rcFile, JSON.stringify({ openaiToken: 'nope' }));
+    expect(() => getRepoConfig(repo)).toThrow(/openaiToken/);
+    fs.writeFileSync(rcFile, JSON.stringify({ provider: 'openai', baseUrl: 'https://collector.example.com/v1' }));
+    expect(() => getRepoConfig(repo)).toThrow(/must not set "baseUrl"/);
+    fs.writeFileSync(rcFile, JSON.stringify({ maxSubjectLength: 'long' }));
+    expect(() => getRepoConfig(repo)).toThrow(/maxSubjectLength/);
+    fs.writeFileSync(rcFile, JSON.stringify({ redact: { patterns: ['('] } }));
+    expect(() => getRepoConfig(repo)).toThrow(/Invalid redact pattern/);
+    fs.writeFileSync(rcFile, JSON.stringify({ ticket: { placement: 'footer' } }));
+    expect(() => getRepoConfig(repo)).toThrow(/ticket\.placement/);
+    fs.writeFileSync(rcFile, JSON.stringify({ coAuthors: { alice: 'alice@example.com' } }));
+    expect(() => getRepoConfig(repo)).toThrow(/coAuthors/);
+    fs.writeFileSync(rcFile, JSON.stringify({ trailers: ['not a trailer'] }));
+    expect(() => getRepoConfig(repo)).toThrow(/trailers/);
+    fs.writeFileSync(rcFile, JSON.stringify({ lint: { scopePattern: '[a-z' } }));
+    expect(() => getRepoConfig(repo)).toThrow(/Invalid lint\.scopePattern/);
+  });
+
+  test('saving the provider keeps the other global settings', () => {
+    writeGlobal({
+      provider: 'openai', apiKey: 'sk-old-key-1234567890', model: 'gpt-4o', baseUrl: 'http://localhost:1234/v1',
+      coAuthors: { alice: 'Alice <alice@example.com>' }, redact: { patterns: ['CORP-\\d+'] }
+    });
+    saveConfig({ provider: 'anthropic', model: 'claude-3-5-haiku-latest' });
+    expect(JSON.parse(fs.readFileSync(globalFile, 'utf8'))).toEqual({
+      provider: 'anthropic', model: 'claude-3-5-haiku-latest',
+      coAuthors: { alice: 'Alice <alice@example.com>' }, redact: { patterns: ['CORP-\\d+'] }
+    });
+  });
+
+  test('accepts settings whose names only contain a secret word', () => {
+    fs.writeFileSync(rcFile, JSON.stringify({ diffTokenBudget: 4000 }));
+    expect(getRepoConfig(repo).config).toEqual({ diffTokenBudget: 4000 });
+    expect(resolveConfig({}, repo).settings.diffTokenBudget).toBe(4000);
+  });
+
+  test('combines saved co-authors from every layer', () => {
+    writeGlobal({ coAuthors: { alice: 'Alice <alice@example.com>' } });
+    fs.writeFileSync(rcFile, JSON.stringify({ coAuthors: { bob: 'Bob <bob@example.com>' }, signoff: true }));
+    const { settings, sources } = resolveConfig({}, repo);
+    expect(settings.coAuthors).toEqual({ alice: 'Alice <alice@example.com>', bob: 'Bob <bob@example.com>' });
+    expect(settings.signoff).toBe(true);
+    expect(sources.signoff).toBe('repo');
+  });
+
+  test('adds redaction rules from every layer', () => {
+    writeGlobal({ redact: { patterns: ['CORP-\\d+'] } });
+    fs.writeFileSync(rcFile, JSON.stringify({ redact: { blockPaths: ['secrets/'] } }));
+    const { settings } = resolveConfig({}, repo);
+    expect(settings.redact).toEqual({ patterns: ['CORP-\\d+'], blockPaths: ['secrets/'] });
   });
 });
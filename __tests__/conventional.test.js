@@ -0,0 +1,48 @@
+const { parseCommitMessage, stripComments, isIgnoredMessage, getBreakingNote } = require('../lib/conventional');
+
+describe('conventional', () => {
+  describe('parseCommitMessage', () => {
+    test('parses type, scope and description', () => {
+      const commit = parseCommitMessage('feat(api): add login endpoint');
+      expect(commit.isConventional).toBe(true);
+      expect(commit.type).toBe('feat');
+      expect(commit.scope).toBe('api');
+      expect(commit.description).toBe('add login endpoint');
+      expect(commit.breaking).toBe(false);
+    });
+
+    test('detects breaking changes from ! and footers', () => {
+      expect(parseCommitMessage('refactor!: drop node 14').breaking).toBe(true);
+      const commit = parseCommitMessage('feat: new config\n\nBody text.\n\nBREAKING CHANGE: config moved\nRefs: #12');
+      expect(commit.breaking).toBe(true);
+      expect(commit.body).toBe('Body text.');
+      expect(commit.footers).toEqual([
+        { token: 'BREAKING CHANGE', value: 'config moved' },
+        { token: 'Refs', value: '#12' }
+      ]);
+      expect(getBreakingNote(commit)).toBe('config moved');
+    });
+
+    test('marks free-form messages as not conventional', () => {
+      const commit = parseCommitMessage('Update readme');
+      expect(commit.isConventional).toBe(false);
+      expect(commit.type).toBeNull();
+      expect(commit.description).toBe('Update readme');
+    });
+  });
+
+  describe('stripComments', () => {
+    test('removes comments and everything below the scissors line', () => {
+      const message = 'fix: a\n# comment\n\nbody\n# ------------------------ >8 ------------------------\ndiff';
+      expect(stripComments(message)).toBe('fix: a\n\nbody');
+    });
+  });
+
+  describe('isIgnoredMessage', () => {
+    test('ignores merge, revert and fixup commits', () => {
+      expect(isIgnoredMessage("Merge branch 'main' into feature")).toBe(true);
+      expect(isIgnoredMessage('fixup! feat: thing')).toBe(true);
+      expect(isIgnoredMessage('feat: thing')).toBe(false);
+    });
+  });
+});
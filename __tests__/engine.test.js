@@ -0,0 +1,97 @@
+const { render, templateVariables } = require('../lib/engine');
+const { TemplateError } = require('../lib/errors');
+
+describe('engine', () => {
+  describe('variables', () => {
+    test('replaces variables and dotted paths', () => {
+      expect(render('{{a}} {{b.c}}', { a: 'x', b: { c: 'y' } })).toBe('x y');
+    });
+
+    test('renders missing values as empty', () => {
+      expect(render('[{{missing}}]', {})).toBe('[]');
+    });
+
+    test('reads only the data\'s own properties', () => {
+      expect(render('[{{constructor}}][{{toString}}][{{a.hasOwnProperty}}]', { a: {} })).toBe('[][][]');
+      expect(render('{{#if toString}}yes{{else}}no{{/if}}', {})).toBe('no');
+      expect(render('{{diff.length}} {{files.length}}', { diff: 'abc', files: [1, 2] })).toBe('3 2');
+    });
+  });
+
+  describe('conditionals', () => {
+    test('supports else branches', () => {
+      const tpl = '{{#if diff}}has diff{{else}}no diff{{/if}}';
+      expect(render(tpl, { diff: 'x' })).toBe('has diff');
+      expect(render(tpl, { diff: null })).toBe('no diff');
+    });
+
+    test('supports nesting and unless', () => {
+      const tpl = '{{#if a}}A{{#if b}}B{{else}}!B{{/if}}{{/if}}{{#unless c}}C{{/unless}}';
+      expect(render(tpl, { a: true, b: false, c: false })).toBe('A!BC');
+    });
+
+    test('treats empty arrays as false', () => {
+      expect(render('{{#if list}}yes{{else}}no{{/if}}', { list: [] })).toBe('no');
+    });
+
+    test('removes lines holding only block tags', () => {
+      const tpl = 'a\n{{#if x}}\nb\n{{/if}}\nc';
+      expect(render(tpl, { x: true })).toBe('a\nb\nc');
+      expect(render(tpl, { x: false })).toBe('a\nc');
+    });
+  });
+
+  describe('each', () => {
+    test('iterates over objects with item fields in scope', () => {
+      const tpl = '{{#each files}}{{@number}}. {{path}} ({{status}})\n{{/each}}';
+      const files = [{ path: 'a.ts', status: 'added' }, { path: 'b.ts', status: 'deleted' }];
+      expect(render(tpl, { files })).toBe('1. a.ts (added)\n2. b.ts (deleted)\n');
+    });
+
+    test('falls back to else for empty lists and reads outer scope', () => {
+      expect(render('{{#each xs}}{{this}}{{else}}none{{/each}}', { xs: [] })).toBe('none');
+      expect(render('{{#each xs}}{{this}}@{{branch}} {{/each}}', { xs: [1, 2], branch: 'main' })).toBe('1@main 2@main ');
+    });
+  });
+
+  describe('filters', () => {
+    test('applies upper, truncate and join', () => {
+      expect(render('{{name | upper}}', { name: 'abc' })).toBe('ABC');
+      expect(render('{{text | truncate 5}}', { text: 'abcdefgh' })).toBe('ab...');
+      expect(render('{{xs | join " / "}}', { xs: ['a', 'b'] })).toBe('a / b');
+    });
+
+    test('chains filters', () => {
+      expect(render('{{xs | first 2 | join | upper}}', { xs: ['a', 'b', 'c'] })).toBe('A, B');
+    });
+  });
+
+  describe('templateVariables', () => {
+    test('lists the top-level names read anywhere in the template', () => {
+      const tpl = '{{branch | upper}}{{#if diff}}{{#each files}}{{path}}{{/each}}{{else}}{{user.name}}{{/if}}';
+      expect([...templateVariables(tpl)].sort()).toEqual(['branch', 'diff', 'files', 'path', 'user']);
+    });
+  });
+
+  describe('errors', () => {
+    test('reports unclosed blocks with line numbers', () => {
+      expect(() => render('line1\n{{#if diff}}\nx', {})).toThrow(TemplateError);
+      expect(() => render('line1\n{{#if diff}}\nx', {})).toThrow('Unclosed {{#if diff}} opened on line 2');
+    });
+
+    test('reports mismatched and stray closing tags', () => {
+      expect(() => render('{{#if a}}{{/each}}', {})).toThrow('does not match');
+      expect(() => render('{{/if}}', {})).toThrow('Unexpected {{/if}}');
+      expect(() => render('{{else}}', {})).toThrow('is not inside');
+    });
+
+    test('does not treat Object.prototype members as filters', () => {
+      expect(() => render('{{name | toString}}', { name: 'a' })).toThrow('Unknown filter "toString"');
+      expect(() => render('{{name | constructor}}', { name: 'a' })).toThrow(TemplateError);
+    });
+
+    test('reports unknown filters', () => {
+      expect(() => render('{{a | shout}}', {})).toThrow('Unknown filter "shout"');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+const fs = require('fs');
+const path = require('path');
+const { useRepo } = require('./helpers/repo');
+const { diffNewFile, getUntrackedDiff, getDiff, stageAll, commit, amendCommit, parseNameStatus, getDiffBase, getChangesSince, getChangedPaths, getDiffSince } = require('../lib/git');
+
+describe('git', () => {
+  const { git, inDirectory } = useRepo('git');
+
+  beforeAll(() => {
+    fs.writeFileSync('notes.txt', 'first\nsecond\n');
+    fs.writeFileSync('icon.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]));
+    fs.writeFileSync('.gitignore', 'ignored.log\n');
+    fs.writeFileSync('ignored.log', 'noise\n');
+  });
+
+  describe('diffNewFile', () => {
+    test('shows text files as new file diffs', () => {
+      const diff = diffNewFile('notes.txt');
+      expect(diff).toContain('new file mode 100644');
+      expect(diff).toContain('@@ -0,0 +1,2 @@');
+      expect(diff).toContain('+second');
+    });
+
+    test('marks a missing final newline', () => {
+      fs.writeFileSync('short.txt', 'only');
+      expect(diffNewFile('short.txt')).toBe('diff --git a/short.txt b/short.txt\nnew file mode 100644\n--- /dev/null\n+++ b/short.txt\n@@ -0,0 +1 @@\n+only\n\\ No newline at end of file\n');
+      fs.rmSync('short.txt');
+    });
+
+    test('describes binary files by size and type', () => {
+      expect(diffNewFile('icon.png')).toContain('Binary files /dev/null and b/icon.png differ (10 B, PNG image)');
+    });
+  });
+
+  describe('commit helpers', () => {
+    test('run through the git runner in the given directory', () => {
+      const calls = [];
+      const run = (args, options) => {
+        calls.push([args, options.cwd, options.stdio]);
+        return { stdout: '', stderr: '' };
+      };
+      stageAll({ cwd: '/work', run });
+      commit('feat: x', { cwd: '/work', run });
+      amendCommit('fix: y', { cwd: '/work', run });
+      expect(calls).toEqual([
+        [['add', '.'], '/work', 'inherit'],
+        [['commit', '-m', 'feat: x'], '/work', 'inherit'],
+        [['commit', '--amend', '-m', 'fix: y'], '/work', 'inherit']
+      ]);
+
+      const failing = () => { throw new Error('hook rejected'); };
+      expect(() => commit('feat: x', { run: failing })).toThrow('Commit failed');
+    });
+  });
+
+  describe('getUntrackedDiff', () => {
+    test('skips ignored files', () => {
+      const diff = getUntrackedDiff(['notes.txt', 'ignored.log']);
+      expect(diff).toContain('b/notes.txt');
+      expect(diff).not.toContain('ignored.log');
+    });
+  });
+
+  describe('parseNameStatus', () => {
+    test('reads statuses and rename pairs', () => {
+      expect(parseNameStatus('M\0a.ts\0R087\0old.ts\0new.ts\0A\0b.ts\0D\0c.ts\0')).toEqual([
+        { path: 'a.ts', oldPath: null, status: 'modified', staged: true },
+        { path: 'new.ts', oldPath: 'old.ts', status: 'renamed', staged: true },
+        { path: 'b.ts', oldPath: null, status: 'added', staged: true },
+        { path: 'c.ts', oldPath: null, status: 'deleted', staged: true }
+      ]);
+    });
+  });
+
+  describe('amend helpers', () => {
+    test('compare a root commit with the empty tree', () => {
+      git('add', 'notes.txt');
+      git('commit', '-q', '-m', 'wip');
+      expect(getDiffBase()).toBe('4b825dc642cb6eb9a060e54bf8d69288fbee4904');
+      expect(getChangesSince(getDiffBase()).map(c => c.path)).toEqual(['notes.txt']);
+    });
+
+    test('cover the last commit and newly staged changes', () => {
+      const first = git('rev-parse', 'HEAD');
+      fs.writeFileSync('notes.txt', 'first\nsecond\nthird\n');
+      git('commit', '-q', '-am', 'wip');
+      git('add', 'icon.png');
+
+      const base = getDiffBase();
+      expect(base).toBe(first);
+      expect(getChangesSince(base)).toEqual([
+        { path: 'icon.png', oldPath: null, status: 'added', staged: true },
+        { path: 'notes.txt', oldPath: null, status: 'modified', staged: true }
+      ]);
+      const diff = getDiffSince(base, ['notes.txt']);
+      expect(diff).toContain('+third');
+      expect(diff).not.toContain('icon.png');
+      expect(inDirectory('nested', () => getDiffSince(base, ['notes.txt']))).toBe(diff);
+    });
+
+    test('list every changed path with its status', () => {
+      git('mv', 'notes.txt', 'renamed.txt');
+      expect(getChangedPaths(true)).toEqual([
+        { path: 'icon.png', oldPath: null, status: 'added', staged: true },
+        { path: 'renamed.txt', oldPath: 'notes.txt', status: 'renamed', staged: true }
+      ]);
+      expect(getChangedPaths(false).slice(2)).toEqual([
+        { path: '.gitignore', oldPath: null, status: 'untracked', staged: false }
+      ]);
+    });
+
+    test('rank every changed file before budgeting and name the dropped ones', () => {
+      fs.mkdirSync('docs');
+      for (let i = 0; i < 210; i++) {
+        fs.writeFileSync(path.join('docs', `${String(i).padStart(3, '0')}.md`), `note ${i}\n`);
+      }
+      fs.writeFileSync('zz.ts', 'export const z = 1;\n');
+      git('add', 'docs', 'zz.ts');
+
+      const files = getChangedPaths(true).map(c => c.path);
+      expect(files).toHaveLength(213);
+      const diff = getDiff(files, true, 3000);
+      expect(diff).toContain('+export const z = 1;');
+      expect(diff).toMatch(/\[Diff omitted for \d+ file\(s\) to fit the budget:\]/);
+      // Past the first git diff batch, and still shown or named
+      expect(diff).toContain('docs/209.md');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+
+// Scratch repository for the enclosing describe block: created and entered in
+// beforeAll, left and removed in afterAll
+function useRepo(name, options = {}) {
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), `gcm-${name}-test-`)));
+  const cwd = process.cwd();
+  const git = (...args) => execFileSync('git', args, { cwd: dir, encoding: 'utf8' }).trim();
+
+  const writeFile = (file, content) => {
+    const target = path.join(dir, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  const commitFile = (file, message) => {
+    writeFile(file, `${file}\n`);
+    git('add', file);
+    git('commit', '-q', '-m', message);
+  };
+
+  // Run `fn` from a directory inside the repository, the way gcm runs when
+  // started in a subdirectory
+  const inDirectory = (sub, fn) => {
+    const target = path.join(dir, sub);
+    fs.mkdirSync(target, { recursive: true });
+    process.chdir(target);
+    try {
+      return fn();
+    } finally {
+      process.chdir(dir);
+    }
+  };
+
+  beforeAll(() => {
+    execFileSync('git', ['init', '-q', ...(options.branch ? ['-b', options.branch] : []), dir]);
+    process.chdir(dir);
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+  });
+
+  afterAll(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  return { dir, git, writeFile, commitFile, inDirectory };
+}
+
+module.exports = { useRepo };
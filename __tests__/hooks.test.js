@@ -0,0 +1,49 @@
+const { shouldGenerateForSource, hasMessageContent, buildHookScript } = require('../lib/hooks');
+
+describe('hooks', () => {
+  describe('shouldGenerateForSource', () => {
+    test('generates for plain commits and commit templates', () => {
+      expect(shouldGenerateForSource('')).toBe(true);
+      expect(shouldGenerateForSource(undefined)).toBe(true);
+      expect(shouldGenerateForSource('template')).toBe(true);
+    });
+
+    test('skips -m, merges, squashes and amends', () => {
+      expect(shouldGenerateForSource('message')).toBe(false);
+      expect(shouldGenerateForSource('merge')).toBe(false);
+      expect(shouldGenerateForSource('squash')).toBe(false);
+      expect(shouldGenerateForSource('commit')).toBe(false);
+    });
+  });
+
+  describe('hasMessageContent', () => {
+    test('ignores comment lines', () => {
+      expect(hasMessageContent('\n# Please enter the commit message\n#\n')).toBe(false);
+      expect(hasMessageContent('fix: typo\n# comment\n')).toBe(true);
+    });
+
+    test('ignores the diff below the scissors line of git commit -v', () => {
+      const buffer = [
+        '',
+        '# Please enter the commit message',
+        '# ------------------------ >8 ------------------------',
+        '# Do not modify or remove the line above.',
+        'diff --git a/a.txt b/a.txt',
+        '+added line',
+        ''
+      ].join('\n');
+      expect(hasMessageContent(buffer)).toBe(false);
+      expect(hasMessageContent(buffer.replace(/^# /gm, '; '), ';')).toBe(false);
+      expect(hasMessageContent('; comment\n', ';')).toBe(false);
+      expect(hasMessageContent('; comment\n')).toBe(true);
+    });
+  });
+
+  describe('buildHookScript', () => {
+    test('chains to the previous hook before running gcm', () => {
+      const script = buildHookScript('prepare-commit-msg');
+      expect(script.startsWith('#!/bin/sh')).toBe(true);
+      expect(script.indexOf('prepare-commit-msg.gcm-chained')).toBeLessThan(script.indexOf('gcm hook run'));
+    });
+  });
+});
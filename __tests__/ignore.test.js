@@ -0,0 +1,38 @@
+const { createIgnoreMatcher, partitionIgnored } = require('../lib/ignore');
+
+describe('ignore', () => {
+  describe('createIgnoreMatcher', () => {
+    test('matches basenames anywhere and anchored paths from the root', () => {
+      const matcher = createIgnoreMatcher(['*.snap', '/dist/**', 'package-lock.json']);
+      expect(matcher.ignores('__tests__/__snapshots__/a.test.js.snap')).toBe(true);
+      expect(matcher.ignores('dist/bin/gcm.js')).toBe(true);
+      expect(matcher.ignores('packages/app/dist/index.js')).toBe(false);
+      expect(matcher.ignores('packages/app/package-lock.json')).toBe(true);
+      expect(matcher.ignores('lib/index.ts')).toBe(false);
+    });
+
+    test('supports directory patterns, negation and comments', () => {
+      const matcher = createIgnoreMatcher(['# generated', 'vendor/', 'gen/**', '!gen/keep.ts']);
+      expect(matcher.patterns).toEqual(['vendor/', 'gen/**', '!gen/keep.ts']);
+      expect(matcher.ignores('lib/vendor/jquery.js')).toBe(true);
+      expect(matcher.ignores('vendor')).toBe(false);
+      expect(matcher.ignores('gen/api.ts')).toBe(true);
+      expect(matcher.ignores('gen/keep.ts')).toBe(false);
+    });
+
+    test('cannot re-include a file inside an ignored directory', () => {
+      const matcher = createIgnoreMatcher(['build/', '!build/keep.txt']);
+      expect(matcher.ignores('build/keep.txt')).toBe(true);
+    });
+
+    test('treats an untracked directory as ignored when its contents are', () => {
+      const matcher = createIgnoreMatcher(['dist/**']);
+      expect(matcher.ignores('dist/')).toBe(true);
+    });
+  });
+
+  test('partitionIgnored splits kept and ignored paths', () => {
+    expect(partitionIgnored(['a.ts', 'b.min.js'], ['*.min.js'])).toEqual({ kept: ['a.ts'], ignored: ['b.min.js'] });
+    expect(partitionIgnored(['a.ts'])).toEqual({ kept: ['a.ts'], ignored: [] });
+  });
+});
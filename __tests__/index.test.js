@@ -0,0 +1,103 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const gcm = require('../lib/index');
+
+describe('library API', () => {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'gcm-api-test-'));
+  const git = (...args) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' }).trim();
+  const client = (reply) => {
+    const prompts = [];
+    return { name: 'openai', prompts, generate: async (prompt) => { prompts.push(prompt); return reply; } };
+  };
+  const memoryCache = () => {
+    const entries = new Map();
+    return { entries, get: key => entries.get(key) || null, set: (key, messages) => entries.set(key, messages) };
+  };
+
+  beforeAll(() => {
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    fs.writeFileSync(path.join(repo, 'app.ts'), 'export const a = 1;\n');
+    git('add', 'app.ts');
+    git('commit', '-q', '-m', 'chore: init');
+    fs.appendFileSync(path.join(repo, 'app.ts'), 'export const b = 2;\n');
+    fs.writeFileSync(path.join(repo, 'util.ts'), 'export const c = 3;\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  test('describes the repository at cwd with the injected provider, cache and git runner', async () => {
+    const provider = client('feat: add b and util');
+    const cache = memoryCache();
+    const gitCalls = [];
+    const run = (args, options) => {
+      gitCalls.push({ args, cwd: options && options.cwd });
+      return gcm.runGit(args, options);
+    };
+
+    const result = await gcm.generateCommitMessage({ cwd: repo, client: provider, cache, git: run, signoff: true });
+    expect(process.cwd()).not.toBe(repo);
+    expect(result).toMatchObject({ subject: 'feat: add b and util', trailers: ['Signed-off-by: Test <test@example.com>'], source: 'ai', provider: 'openai' });
+    expect(result.summary.samples.untracked).toEqual(['util.ts']);
+    expect(provider.prompts[0]).toContain('export const b = 2;');
+    expect(cache.entries.size).toBe(1);
+    expect(gitCalls.length).toBeGreaterThan(0);
+    expect(gitCalls.every(call => call.cwd === repo)).toBe(true);
+
+    const cached = await gcm.generateCommitMessage({ cwd: repo, client: provider, cache });
+    expect(cached.source).toBe('cache');
+    expect(provider.prompts).toHaveLength(1);
+  });
+
+  test('builds simple messages and reports when there is nothing to describe', async () => {
+    const simple = await gcm.generateCommitMessage({ cwd: repo, simple: true });
+    expect(simple.source).toBe('simple');
+    expect(simple.message).toContain('untracked: util.ts');
+
+    const staged = await gcm.generateCommitMessage({ cwd: repo, simple: true, stagedOnly: true });
+    expect(staged.message).toBeNull();
+    expect(staged.warnings).toEqual(['No staged changes to commit.']);
+  });
+
+  test('describes a patch without a repository', async () => {
+    const patch = git('diff');
+    const result = await gcm.generateCommitMessage({ cwd: os.tmpdir(), patch, client: client('fix: export b'), cache: memoryCache() });
+    expect(result.message).toBe('fix: export b');
+    expect(result.summary.staged.modified).toBe(1);
+  });
+
+  test('throws typed errors', async () => {
+    await expect(gcm.generateCommitMessage({ cwd: os.tmpdir(), simple: true })).rejects.toBeInstanceOf(gcm.GitError);
+    await expect(gcm.generateCommitMessage({ cwd: repo, simple: true, template: 'no-such-template' })).rejects.toBeInstanceOf(gcm.TemplateError);
+    await expect(gcm.generateCommitMessage({ cwd: repo, simple: true, candidates: 9 })).rejects.toBeInstanceOf(gcm.ValidationError);
+
+    const failing = { name: 'openai', generate: async () => { throw new Error('boom'); } };
+    const fallback = await gcm.generateCommitMessage({ cwd: repo, client: failing, cache: memoryCache() });
+    expect(fallback.source).toBe('simple');
+    expect(fallback.warnings[0]).toMatch(/AI generation failed, used a simple message: boom/);
+
+    const error = await gcm.generateCommitMessage({ cwd: repo, client: failing, cache: memoryCache(), fallback: false }).catch(err => err);
+    expect(error).toBeInstanceOf(gcm.APIError);
+    expect(error.message).toMatch(/boom/);
+  }, 20000);
+
+  test('describes the whole repository from a subdirectory', async () => {
+    fs.mkdirSync(path.join(repo, 'src'));
+    fs.writeFileSync(path.join(repo, 'src', 'lib.ts'), 'export const d = 4;\n');
+    git('add', 'src/lib.ts');
+    git('commit', '-q', '-m', 'chore: add lib');
+    fs.appendFileSync(path.join(repo, 'src', 'lib.ts'), 'export const e = 5;\n');
+
+    const provider = client('feat: add e');
+    await gcm.generateCommitMessage({ cwd: path.join(repo, 'src'), client: provider, cache: memoryCache() });
+    expect(provider.prompts[0]).not.toContain('No diff available');
+    expect(provider.prompts[0]).toContain('+export const e = 5;');
+    expect(provider.prompts[0]).toContain('+export const b = 2;');
+    expect(provider.prompts[0]).toContain('+export const c = 3;');
+  });
+});
@@ -0,0 +1,63 @@
+const { lintMessage, fixMessage } = require('../lib/lint');
+const { ConfigError } = require('../lib/errors');
+
+const rules = (result) => [...result.errors, ...result.warnings].map(i => i.rule);
+
+describe('lint', () => {
+  describe('lintMessage', () => {
+    test('accepts a well-formed message', () => {
+      const result = lintMessage('feat(cli): add lint command\n\nExplain why.');
+      expect(result.valid).toBe(true);
+      expect(rules(result)).toEqual([]);
+    });
+
+    test('rejects unknown types and long subjects', () => {
+      const result = lintMessage(`feature: ${'x'.repeat(80)}`);
+      expect(result.valid).toBe(false);
+      expect(rules(result)).toEqual(expect.arrayContaining(['type-enum', 'subject-max-length']));
+    });
+
+    test('warns about punctuation and non-imperative mood', () => {
+      const result = lintMessage('fix: fixed the bug.');
+      expect(result.valid).toBe(true);
+      expect(rules(result)).toEqual(expect.arrayContaining(['subject-full-stop', 'subject-imperative']));
+    });
+
+    test('honours configured scopes and rule overrides', () => {
+      const config = { scopes: ['api', 'web'], rules: { 'subject-imperative': 'off' } };
+      expect(rules(lintMessage('fix(db): fixed it', config))).toEqual(['scope-enum']);
+    });
+
+    test('reports an invalid scope pattern as a config error', () => {
+      expect(rules(lintMessage('fix(db): fix it', { scopePattern: '^db$' }))).toEqual([]);
+      expect(() => lintMessage('fix(db): fix it', { scopePattern: '(' })).toThrow(ConfigError);
+      expect(() => lintMessage('fix(db): fix it', { scopePattern: '(' })).toThrow(/Invalid lint\.scopePattern "\("/);
+    });
+
+    test('skips merge commits', () => {
+      expect(lintMessage("Merge branch 'x'").ignored).toBe(true);
+    });
+  });
+
+  describe('fixMessage', () => {
+    test('trims the subject and wraps long body lines', () => {
+      const body = 'word '.repeat(30).trim();
+      const fixed = fixMessage(`feat: add thing.\n\n- ${body}`);
+      const lines = fixed.split('\n');
+      expect(lines[0]).toBe('feat: add thing');
+      expect(lines.slice(2).every(line => line.length <= 72)).toBe(true);
+      expect(lines[3].startsWith('  word')).toBe(true);
+    });
+
+    test('cuts long subjects at a word boundary', () => {
+      const fixed = fixMessage(`fix: ${'abcd '.repeat(20)}`, { maxSubjectLength: 30 });
+      expect(fixed.length).toBeLessThanOrEqual(30);
+      expect(fixed.endsWith('abcd')).toBe(true);
+    });
+
+    test('leaves trailers alone', () => {
+      const message = 'fix: a\n\nSigned-off-by: Someone With A Very Long Name <someone.with.a.long.name@example.com>';
+      expect(fixMessage(message)).toBe(message);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+const { parsePatch, summarizePatch, getPatchNumstat, getPatchDiff } = require('../lib/patch');
+
+const gitDiff = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,3 +1,4 @@',
+  ' const a = 1;',
+  '--- removed line that looks like a header',
+  '+const b = 2;',
+  '+const c = 3;',
+  ' export default a;',
+  'diff --git a/old.md b/docs/new.md',
+  'similarity index 90%',
+  'rename from old.md',
+  'rename to docs/new.md',
+  'diff --git a/logo.png b/logo.png',
+  'new file mode 100644',
+  'index 0000000..3333333',
+  'Binary files /dev/null and b/logo.png differ',
+  'diff --git a/gone.txt b/gone.txt',
+  'deleted file mode 100644',
+  'index 4444444..0000000',
+  '--- a/gone.txt',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-bye',
+  'diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ "b/caf\\303\\251.txt"',
+  '@@ -0,0 +1 @@',
+  '+hi',
+  'diff --git a/package-lock.json b/package-lock.json',
+  '--- a/package-lock.json',
+  '+++ b/package-lock.json',
+  '@@ -1 +1 @@',
+  '-{}',
+  '+{ }',
+  ''
+].join('\n');
+
+describe('patch', () => {
+  test('parses git diff output file by file', () => {
+    const files = parsePatch(gitDiff);
+    expect(files.map(f => [f.path, f.oldPath, f.status])).toEqual([
+      ['src/app.ts', null, 'modified'],
+      ['docs/new.md', 'old.md', 'renamed'],
+      ['logo.png', null, 'added'],
+      ['gone.txt', null, 'deleted'],
+      ['café.txt', null, 'added'],
+      ['package-lock.json', null, 'modified']
+    ]);
+    expect(files[0]).toMatchObject({ additions: 2, deletions: 1, binary: false });
+    expect(files[0].diff.split('\n')).toHaveLength(10);
+    expect(files[2].binary).toBe(true);
+    expect(files[3]).toMatchObject({ additions: 0, deletions: 1 });
+  });
+
+  test('reads format-patch emails and plain diff -u output', () => {
+    const email = [
+      'From 5f71560 Mon Sep 17 00:00:00 2001',
+      'From: Dev <dev@example.com>',
+      'Subject: [PATCH] Fix the thing',
+      '',
+      '---',
+      ' lib/a.ts | 2 +-',
+      ' 1 file changed, 1 insertion(+), 1 deletion(-)',
+      '',
+      'diff --git a/lib/a.ts b/lib/a.ts',
+      '--- a/lib/a.ts',
+      '+++ b/lib/a.ts',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+      '-- ',
+      '2.43.0',
+      ''
+    ].join('\n');
+    const [file] = parsePatch(email);
+    expect(file).toMatchObject({ path: 'lib/a.ts', status: 'modified', additions: 1, deletions: 1 });
+    expect(file.diff).not.toContain('2.43.0');
+
+    const plain = [
+      '--- notes.txt\t2024-05-01 10:00:00.000000000 +0200',
+      '+++ notes.txt\t2024-05-02 10:00:00.000000000 +0200',
+      '@@ -1,2 +1,2 @@',
+      ' keep',
+      '-old',
+      '+new',
+      '--- /dev/null',
+      '+++ extra.txt',
+      '@@ -0,0 +1 @@',
+      '+added'
+    ].join('\n');
+    const files = parsePatch(plain);
+    expect(files.map(f => [f.path, f.status, f.additions, f.deletions])).toEqual([
+      ['notes.txt', 'modified', 1, 1],
+      ['extra.txt', 'added', 1, 0]
+    ]);
+    expect(files[0].diff.split('\n')[0]).toBe('diff --git a/notes.txt b/notes.txt');
+
+    expect(() => parsePatch('just some text\n')).toThrow(/No file changes found/);
+  });
+
+  test('summarizes the patch like staged changes', () => {
+    const files = parsePatch(gitDiff);
+    const summary = summarizePatch(files, ['package-lock.json']);
+    expect(summary.branch).toBeNull();
+    expect(summary.staged).toEqual({ added: 2, modified: 1, deleted: 1, renamed: 1, copied: 0 });
+    expect(summary.ignored.staged).toBe(1);
+    expect(summary.samples.renamed).toEqual(['old.md -> docs/new.md']);
+
+    expect(getPatchNumstat(files).slice(0, 3)).toEqual([
+      { path: 'src/app.ts', oldPath: null, additions: 2, deletions: 1 },
+      { path: 'docs/new.md', oldPath: 'old.md', additions: 0, deletions: 0 },
+      { path: 'logo.png', oldPath: null, additions: null, deletions: null }
+    ]);
+  });
+
+  test('builds the diff for the chosen files without ignored ones', () => {
+    const files = parsePatch(gitDiff);
+    const diff = getPatchDiff(files, ['src/app.ts', 'gone.txt', 'package-lock.json'], 10000, ['package-lock.json']);
+    expect(diff).toContain('diff --git a/src/app.ts b/src/app.ts');
+    expect(diff).toContain('diff --git a/gone.txt b/gone.txt');
+    expect(diff).not.toContain('package-lock.json');
+    expect(diff).not.toContain('logo.png');
+    expect(getPatchDiff(files, ['package-lock.json'], 10000, ['package-lock.json'])).toBe('');
+  });
+});
@@ -0,0 +1,93 @@
+const fs = require('fs');
+const os = require('os');
+const { useRepo } = require('./helpers/repo');
+const { detectBaseBranch, readPrTemplate, collectBranchChanges, parsePullRequest, buildSimplePullRequest, formatPullRequest } = require('../lib/pr');
+const { buildPrPrompt } = require('../lib/templates');
+
+describe('pr', () => {
+  describe('parsePullRequest', () => {
+    test('splits the title from the body', () => {
+      expect(parsePullRequest('Add login\n\n## Summary\n\nAdds a form.')).toEqual({ title: 'Add login', body: '## Summary\n\nAdds a form.' });
+      expect(parsePullRequest('# Title: Add login\n\nBody').title).toBe('Add login');
+      expect(parsePullRequest('**Add login**').title).toBe('Add login');
+    });
+
+    test('unwraps a fenced response but keeps code blocks in the body', () => {
+      const pr = parsePullRequest('```markdown\nAdd login\n\n## Changes\n\n```js\nlogin();\n```\n```');
+      expect(pr.title).toBe('Add login');
+      expect(pr.body).toBe('## Changes\n\n```js\nlogin();\n```');
+    });
+  });
+
+  describe('on a branch', () => {
+    const { dir: repo, git, commitFile, inDirectory } = useRepo('pr', { branch: 'main' });
+
+    beforeAll(() => {
+      commitFile('a.txt', 'init');
+      git('checkout', '-q', '-b', 'feature/add-login');
+      commitFile('login.ts', 'feat: add login form');
+      commitFile('yarn.lock', 'chore: update lockfile');
+    });
+
+    test('detects the base branch', () => {
+      expect(detectBaseBranch('feature/add-login')).toBe('main');
+      expect(() => detectBaseBranch('main')).toThrow(/--base/);
+    });
+
+    test('collects commits oldest first and the branch diff', () => {
+      const changes = collectBranchChanges('main', 'feature/add-login', { ignore: ['yarn.lock'] });
+      expect(changes.commits.map(c => c.message)).toEqual(['feat: add login form', 'chore: update lockfile']);
+      expect(changes.files).toEqual(['login.ts']);
+      expect(changes.summary.ignored).toEqual({ staged: 1, total: 1 });
+      expect(changes.diff).toContain('+login.ts');
+      expect(() => collectBranchChanges('HEAD', 'feature/add-login', {})).toThrow(/No commits/);
+    });
+
+    test('reads the whole branch from a subdirectory or the repository in the git context', () => {
+      const fromSubdirectory = inDirectory('src', () => collectBranchChanges('main', 'feature/add-login', {}));
+      expect(fromSubdirectory.files).toEqual(['login.ts', 'yarn.lock']);
+      expect(fromSubdirectory.diff).toContain('+login.ts');
+
+      process.chdir(os.tmpdir());
+      try {
+        expect(detectBaseBranch('feature/add-login', { cwd: repo })).toBe('main');
+        expect(collectBranchChanges('main', 'feature/add-login', { git: { cwd: repo } }).diff).toBe(fromSubdirectory.diff);
+      } finally {
+        process.chdir(repo);
+      }
+    });
+
+    test('builds a simple description, following the repository template', () => {
+      const changes = collectBranchChanges('main', 'feature/add-login', {});
+      const pr = buildSimplePullRequest(changes);
+      expect(pr.title).toBe('Add login');
+      expect(pr.body).toContain('## Summary\n\n2 commits from `feature/add-login` into `main`, changing 2 files.');
+      expect(pr.body).toContain('## Changes\n\n- feat: add login form\n- chore: update lockfile');
+      expect(pr.body).toContain('## Testing');
+
+      expect(readPrTemplate(repo)).toBeNull();
+      fs.mkdirSync('.github');
+      fs.writeFileSync('.github/pull_request_template.md', '## What\n\n## Checklist\n- [ ] Tests\n');
+      const template = readPrTemplate(repo);
+      expect(template).toBe('## What\n\n## Checklist\n- [ ] Tests');
+      expect(buildSimplePullRequest(changes, template).body).toBe(`${template}\n\n## Commits\n\n- feat: add login form\n- chore: update lockfile`);
+      expect(formatPullRequest({ title: 'T', body: 'B' })).toBe('T\n\nB\n');
+    });
+
+    test('puts commits, files and the template into the prompt', () => {
+      const changes = collectBranchChanges('main', 'feature/add-login', {});
+      const prompt = buildPrPrompt(changes.summary, changes.diff, changes.files, {
+        base: 'main',
+        commits: ['feat: add login form'],
+        numstat: changes.numstat,
+        prTemplate: '## What'
+      });
+      expect(prompt).toContain('to be merged into "main"');
+      expect(prompt).toContain('- feat: add login form');
+      expect(prompt).toContain('- login.ts (added, +1/-0)');
+      expect(prompt).toContain('pull request template');
+      expect(prompt).toContain('  ## What');
+      expect(buildPrPrompt(changes.summary, '', [], { base: 'main', commits: [] })).toContain('## Testing');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+const http = require('http');
+const {
+  parseProviderName,
+  providerNeedsApiKey,
+  createProvider,
+  OpenAICompatibleProvider
+} = require('../lib/providers');
+
+describe('providers', () => {
+  describe('parseProviderName', () => {
+    test('accepts known providers case-insensitively', () => {
+      expect(parseProviderName('gemini')).toBe('gemini');
+      expect(parseProviderName(' Ollama ')).toBe('ollama');
+    });
+
+    test('rejects unknown providers', () => {
+      expect(() => parseProviderName('bard')).toThrow('Unknown provider');
+    });
+  });
+
+  describe('providerNeedsApiKey', () => {
+    test('hosted providers need a key', () => {
+      expect(providerNeedsApiKey('gemini')).toBe(true);
+      expect(providerNeedsApiKey('anthropic')).toBe(true);
+      expect(providerNeedsApiKey('openai')).toBe(true);
+    });
+
+    test('local endpoints do not', () => {
+      expect(providerNeedsApiKey('ollama')).toBe(false);
+      expect(providerNeedsApiKey('openai', 'http://localhost:8000/v1')).toBe(false);
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    let server;
+    let baseUrl;
+    let lastRequest;
+
+    beforeAll((done) => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          lastRequest = { url: req.url, headers: req.headers, body: JSON.parse(body) };
+          if (lastRequest.body.model === 'missing') {
+            res.writeHead(404, { 'content-type': 'application/json' });
+            res.end(JSON.stringify({ error: { message: 'model not found' } }));
+            return;
+          }
+          res.writeHead(200, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ choices: [{ message: { content: 'feat: add thing' } }] }));
+        });
+      });
+      server.listen(0, '127.0.0.1', () => {
+        baseUrl = `http://127.0.0.1:${server.address().port}/v1`;
+        done();
+      });
+    });
+
+    afterAll((done) => {
+      server.close(done);
+    });
+
+    test('posts a chat completion request', async () => {
+      const provider = createProvider('ollama', { baseUrl });
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      const text = await provider.generate('prompt', 'llama3.1');
+      expect(text).toBe('feat: add thing');
+      expect(lastRequest.url).toBe('/v1/chat/completions');
+      expect(lastRequest.body.messages[0].content).toBe('prompt');
+      expect(lastRequest.headers.authorization).toBeUndefined();
+    });
+
+    test('sends bearer token when an API key is set', async () => {
+      const provider = createProvider('openai', { baseUrl, apiKey: 'secret-key' });
+      await provider.generate('prompt', 'gpt-4o-mini');
+      expect(lastRequest.headers.authorization).toBe('Bearer secret-key');
+    });
+
+    test('maps 404 to MODEL_NOT_FOUND', async () => {
+      const provider = createProvider('openai', { baseUrl });
+      await expect(provider.generate('prompt', 'missing')).rejects.toMatchObject({ code: 'MODEL_NOT_FOUND' });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+const fs = require('fs');
+const { useRepo } = require('./helpers/repo');
+const { planReword, checkRewordSafety, backupRef, applyReword } = require('../lib/reword');
+
+describe('reword', () => {
+  const { git, commitFile, inDirectory } = useRepo('reword');
+
+  beforeAll(() => {
+    commitFile('a.txt', 'init');
+    commitFile('b.txt', 'wip\n\nSigned-off-by: Test <test@example.com>');
+    commitFile('c.txt', 'wip 2');
+  });
+
+  test('plans a range oldest first', () => {
+    const plan = planReword('HEAD~2..');
+    expect(plan.commits.map(c => c.message)).toEqual(['wip\n\nSigned-off-by: Test <test@example.com>', 'wip 2']);
+    expect(plan.base).toBe(git('rev-parse', 'HEAD~2'));
+    expect(plan.replayed).toBe(2);
+    expect(plan.merges).toEqual([]);
+    expect(plan.published).toEqual([]);
+    expect(planReword('HEAD').base).toBeNull();
+  });
+
+  test('rejects empty ranges and commits off the branch', () => {
+    expect(() => planReword('HEAD..HEAD')).toThrow(/No commits/);
+    git('branch', 'other', 'HEAD~1');
+    git('checkout', '-q', 'other');
+    commitFile('d.txt', 'elsewhere');
+    git('checkout', '-q', '-');
+    expect(() => planReword('HEAD~1..other')).toThrow(/not on the current branch/);
+  });
+
+  test('refuses published ranges, merges and a dirty tree unless forced', () => {
+    git('update-ref', 'refs/remotes/origin/main', 'HEAD~1');
+    expect(() => checkRewordSafety(planReword('HEAD~2..'))).toThrow(/already published \(origin\/main\)/);
+    expect(() => checkRewordSafety(planReword('HEAD~2..'), true)).not.toThrow();
+    expect(() => checkRewordSafety(planReword('HEAD~1..'))).not.toThrow();
+    git('update-ref', '-d', 'refs/remotes/origin/main');
+
+    expect(() => checkRewordSafety({ published: [], merges: ['abc'] })).toThrow(/merge commit/);
+
+    fs.appendFileSync('a.txt', 'changed\n');
+    expect(() => checkRewordSafety(planReword('HEAD~1..'), true)).toThrow(/Commit or stash/);
+    git('checkout', '-q', 'a.txt');
+  });
+
+  test('plans and checks the same range from a subdirectory', () => {
+    inDirectory('nested/dir', () => {
+      const plan = planReword('HEAD~2..');
+      expect(plan.base).toBe(git('rev-parse', 'HEAD~2'));
+      expect(plan.commits.map(c => c.message)).toEqual(['wip\n\nSigned-off-by: Test <test@example.com>', 'wip 2']);
+
+      fs.appendFileSync('../../a.txt', 'changed\n');
+      expect(() => checkRewordSafety(plan, true)).toThrow(/Commit or stash/);
+    });
+    git('checkout', '-q', 'a.txt');
+  });
+
+  test('rewrites the messages and keeps the content', () => {
+    const tree = git('rev-parse', 'HEAD^{tree}');
+    const plan = planReword('HEAD~2..');
+    const ref = backupRef();
+    expect(ref).toBe(`refs/gcm/backup/${git('symbolic-ref', '--short', 'HEAD')}`);
+    expect(git('rev-parse', ref)).toBe(git('rev-parse', 'HEAD'));
+
+    const messages = new Map([
+      [plan.commits[0].sha, 'feat: add b\n\nSigned-off-by: Test <test@example.com>'],
+      [plan.commits[1].sha, plan.commits[1].message]
+    ]);
+    expect(applyReword(plan, messages)).toBe(1);
+    expect(git('log', '--format=%B%x00', '-3').split('\0').map(m => m.trim()).filter(Boolean))
+      .toEqual(['wip 2', 'feat: add b\n\nSigned-off-by: Test <test@example.com>', 'init']);
+    expect(git('rev-parse', 'HEAD^{tree}')).toBe(tree);
+  });
+});
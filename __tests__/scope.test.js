@@ -0,0 +1,63 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const { inferScope, collectScopes, getWorkspacePackages, toScope } = require('../lib/scope');
+
+const makeRepo = (files) => {
+  const repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'gcm-scope-test-')));
+  execFileSync('git', ['init', '-q', repo]);
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.join(repo, path.dirname(file)), { recursive: true });
+    fs.writeFileSync(path.join(repo, file), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return repo;
+};
+
+describe('scope', () => {
+  const repos = [];
+  afterAll(() => repos.forEach(repo => fs.rmSync(repo, { recursive: true, force: true })));
+
+  test('toScope strips the npm scope and normalizes', () => {
+    expect(toScope('@acme/API_Server')).toBe('api_server');
+    expect(toScope('web app')).toBe('web-app');
+  });
+
+  test('maps files to npm workspace package names', () => {
+    const repo = makeRepo({
+      'package.json': { workspaces: ['packages/*', 'apps/web'] },
+      'packages/api/package.json': { name: '@acme/api' },
+      'packages/shared/package.json': { name: '@acme/utils' },
+      'apps/web/package.json': { name: 'web' }
+    });
+    repos.push(repo);
+
+    expect(getWorkspacePackages(repo).map(p => p.scope).sort()).toEqual(['api', 'utils', 'web']);
+    expect(inferScope(['packages/api/src/a.ts', 'package-lock.json'], {}, repo)).toBe('api');
+    expect(collectScopes(['apps/web/x.ts', 'packages/api/a.ts', 'packages/api/b.ts'], {}, repo)).toEqual(['api', 'web']);
+  });
+
+  test('applies the multi-scope policy and allowed scopes', () => {
+    const repo = makeRepo({
+      'pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n",
+      'packages/api/index.js': '',
+      'packages/web/index.js': ''
+    });
+    repos.push(repo);
+    const files = ['packages/web/index.js', 'packages/api/index.js'];
+
+    expect(inferScope(files, {}, repo)).toBeNull();
+    expect(inferScope(files, { scopePolicy: 'multi' }, repo)).toBe('api,web');
+    expect(inferScope(['packages/api/index.js'], { scopes: ['core'] }, repo)).toBeNull();
+  });
+
+  test('prefers the most specific scopeMap entry', () => {
+    const repo = makeRepo({ 'README.md': '' });
+    repos.push(repo);
+    const scopeMap = { 'src/': 'core', 'src/cli/': 'cli', 'docs/**': 'docs' };
+
+    expect(inferScope(['src/cli/main.ts'], { scopeMap }, repo)).toBe('cli');
+    expect(inferScope(['src/index.ts', 'README.md'], { scopeMap }, repo)).toBe('core');
+    expect(inferScope(['README.md'], { scopeMap }, repo)).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+const { useRepo } = require('./helpers/repo');
+const { classifyPath, groupChanges, groupPaths, groupDiff, buildGroupMessage, applySplitPlan } = require('../lib/split');
+const { parseWorkingChanges, getWorkingChanges, getWorkingDiff } = require('../lib/git');
+const { parseDiff } = require('../lib/budget');
+
+const change = (path, status = 'modified', oldPath = null) => ({ path, oldPath, status, staged: false });
+
+describe('split', () => {
+  describe('parseWorkingChanges', () => {
+    test('reads renames, untracked files and conflicts', () => {
+      const output = 'R  lib/new.ts\0lib/old.ts\0?? web/app.js\0 M README.md\0UU lib/a.ts\0';
+      expect(parseWorkingChanges(output)).toEqual([
+        { path: 'lib/new.ts', oldPath: 'lib/old.ts', status: 'renamed', staged: true },
+        { path: 'web/app.js', oldPath: null, status: 'untracked', staged: false },
+        { path: 'README.md', oldPath: null, status: 'modified', staged: false },
+        { path: 'lib/a.ts', oldPath: null, status: 'conflict', staged: true }
+      ]);
+    });
+  });
+
+  describe('classifyPath', () => {
+    test('recognizes docs, tests, build and ci files', () => {
+      expect(classifyPath('README.md')).toBe('docs');
+      expect(classifyPath('__tests__/cache.test.js')).toBe('test');
+      expect(classifyPath('packages/api/package.json')).toBe('build');
+      expect(classifyPath('.github/workflows/ci.yml')).toBe('ci');
+      expect(classifyPath('lib/cache.ts')).toBe('code');
+    });
+  });
+
+  describe('groupChanges', () => {
+    test('groups code by directory and keeps tests with their module', () => {
+      const groups = groupChanges([
+        change('README.md'),
+        change('lib/cache.ts'),
+        change('__tests__/cache.test.js', 'untracked'),
+        change('__tests__/other.test.js'),
+        change('web/app.js'),
+        change('package.json')
+      ]);
+      expect(groups.map(g => [g.kind, g.scope, g.changes.map(c => c.path)])).toEqual([
+        ['build', null, ['package.json']],
+        ['code', 'lib', ['lib/cache.ts', '__tests__/cache.test.js']],
+        ['code', 'web', ['web/app.js']],
+        ['test', null, ['__tests__/other.test.js']],
+        ['docs', null, ['README.md']]
+      ]);
+    });
+
+    test('splits formatting-only hunks into a style commit that comes first', () => {
+      const diffs = parseDiff([
+        'diff --git a/lib/a.ts b/lib/a.ts',
+        'index 1111111..2222222 100644',
+        '--- a/lib/a.ts',
+        '+++ b/lib/a.ts',
+        '@@ -1,3 +1,3 @@',
+        ' function a() {',
+        '-return 1;',
+        '+  return 1;',
+        ' }',
+        '@@ -20,3 +20,3 @@ function b() {',
+        ' const x = 1;',
+        '-const y = 2;',
+        '+const y = 3;',
+        ' return x + y;',
+        'diff --git a/lib/b.ts b/lib/b.ts',
+        '--- a/lib/b.ts',
+        '+++ b/lib/b.ts',
+        '@@ -5,2 +5,3 @@',
+        ' x();',
+        '+',
+        ' y();',
+        ''
+      ].join('\n'));
+      const groups = groupChanges([change('lib/a.ts'), change('lib/b.ts')], diffs);
+      expect(groups.map(g => [g.kind, g.changes.map(c => c.path), Object.keys(g.partial)])).toEqual([
+        ['style', ['lib/a.ts', 'lib/b.ts'], ['lib/a.ts']],
+        ['code', ['lib/a.ts'], []]
+      ]);
+      expect(groups[0].partial['lib/a.ts'].hunks).toHaveLength(1);
+      expect(buildGroupMessage(groups[0])).toBe('style: format a.ts, b.ts');
+
+      const styleDiff = groupDiff(groups[0], diffs);
+      expect(styleDiff).toContain('+  return 1;');
+      expect(styleDiff).not.toContain('+const y = 3;');
+      expect(groupDiff(groups[1], diffs)).toContain('+const y = 3;');
+    });
+
+    test('keeps a test with the module it imports', () => {
+      const diffs = parseDiff([
+        'diff --git a/__tests__/limits.test.js b/__tests__/limits.test.js',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/__tests__/limits.test.js',
+        '@@ -0,0 +1,2 @@',
+        "+const { prune } = require('../lib/cache');",
+        "+test('prunes', () => prune());",
+        ''
+      ].join('\n'));
+      const groups = groupChanges([change('lib/cache.ts'), change('__tests__/limits.test.js', 'untracked')], diffs);
+      expect(groups.map(g => [g.kind, g.scope, g.changes.map(c => c.path)])).toEqual([
+        ['code', 'lib', ['lib/cache.ts', '__tests__/limits.test.js']]
+      ]);
+    });
+
+    test('stages both sides of a rename', () => {
+      const [group] = groupChanges([change('lib/new.ts', 'renamed', 'lib/old.ts')]);
+      expect(groupPaths(group)).toEqual(['lib/new.ts', 'lib/old.ts']);
+    });
+  });
+
+  describe('buildGroupMessage', () => {
+    test('uses the group kind and scope', () => {
+      const [group] = groupChanges([change('web/app.js', 'untracked')]);
+      expect(buildGroupMessage(group)).toBe('feat(web): add app.js');
+    });
+  });
+
+  describe('applySplitPlan', () => {
+    const { git, writeFile, commitFile, inDirectory } = useRepo('split');
+    const lines = Array.from({ length: 20 }, (_, i) => `export const v${i} = ${i};`);
+
+    test('stages whole files and hunks from a subdirectory', () => {
+      commitFile('src/app.ts', 'chore: init');
+      writeFile('src/app.ts', `${lines.join('\n')}\n`);
+      git('commit', '-q', '-am', 'chore: fill');
+      writeFile('src/app.ts', `${lines[0]}  \n${lines.slice(1).join('\n')}\nexport const extra = 1;\n`);
+      writeFile('README.md', '# Demo\n');
+      writeFile('.gcmignore', 'dist/\n');
+
+      const result = inDirectory('src', () => {
+        const changes = getWorkingChanges();
+        const diffs = parseDiff(getWorkingDiff(changes.filter(c => c.status === 'untracked').map(c => c.path)));
+        const groups = groupChanges(changes, diffs);
+        groups.forEach((group) => { group.message = buildGroupMessage(group); });
+        expect(groups.some(group => Object.keys(group.partial).length > 0)).toBe(true);
+        return applySplitPlan(groups);
+      });
+
+      expect(result.commits).toBeGreaterThan(1);
+      expect(git('status', '--porcelain')).toBe('');
+      expect(git('log', '-1', '--format=%s', '--', 'README.md')).toMatch(/^docs/);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'gcm-templates-test-'));
+// Jest's process.env is a copy, so point os.homedir() at the temp dir directly
+jest.spyOn(os, 'homedir').mockReturnValue(home);
+
+const { getTemplate, validateTemplateName, templateExists, buildPromptFromTemplate, DEFAULT_TEMPLATE } = require('../lib/templates');
+const { TemplateError } = require('../lib/errors');
+
+describe('templates', () => {
+  afterAll(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('getTemplate', () => {
+    test('returns the built-in default', () => {
+      expect(getTemplate('default')).toBe(DEFAULT_TEMPLATE);
+      expect(templateExists('default')).toBe(true);
+    });
+
+    test('throws for a missing template instead of falling back', () => {
+      expect(() => getTemplate('gcm-test-missing-template')).toThrow(TemplateError);
+    });
+  });
+
+  describe('validateTemplateName', () => {
+    test('accepts simple names', () => {
+      expect(() => validateTemplateName('short-v2')).not.toThrow();
+    });
+
+    test('rejects path traversal', () => {
+      expect(() => validateTemplateName('../config')).toThrow('Invalid template name');
+      expect(() => validateTemplateName('a/b')).toThrow('Invalid template name');
+    });
+  });
+
+  describe('buildPromptFromTemplate', () => {
+    const summary = {
+      branch: 'main', ahead: 0, behind: 0,
+      staged: { added: 0, modified: 1, deleted: 0, renamed: 0, copied: 0 },
+      unstaged: { modified: 0, deleted: 0 }, untracked: 0, conflicts: 0,
+      samples: { added: [], modified: ['a.ts'], deleted: [], renamed: [], untracked: [] }
+    };
+
+    test('includes the previous candidate and feedback when regenerating', () => {
+      const prompt = buildPromptFromTemplate(summary, '', ['a.ts'], {}, 'default', {
+        previousMessage: 'feat: add thing',
+        feedback: 'mention the migration'
+      });
+      expect(prompt).toContain('  feat: add thing');
+      expect(prompt).toContain('instruction from the user: mention the migration');
+    });
+
+    test('takes file statuses from the full change list', () => {
+      const prompt = buildPromptFromTemplate(summary, '', ['a.ts', 'old.ts', 'new.ts', 'gone.ts'], {}, 'default', {
+        changes: [
+          { path: 'a.ts', oldPath: null, status: 'modified', staged: true },
+          { path: 'new.ts', oldPath: 'old.ts', status: 'renamed', staged: true },
+          { path: 'gone.ts', oldPath: null, status: 'deleted', staged: true }
+        ]
+      });
+      expect(prompt).toContain('- new.ts (renamed from old.ts)');
+      expect(prompt).toContain('- gone.ts (deleted)');
+      expect(prompt).not.toContain('- old.ts');
+    });
+
+    test('leaves the section out on the first attempt', () => {
+      const prompt = buildPromptFromTemplate(summary, '', ['a.ts'], {}, 'default', {});
+      expect(prompt).not.toContain('previous suggestion');
+    });
+
+    test('appends regeneration context a custom template leaves out', () => {
+      fs.mkdirSync(path.join(home, '.gcm', 'templates'), { recursive: true });
+      fs.writeFileSync(path.join(home, '.gcm', 'templates', 'terse.txt'), 'Describe {{fileList}}\n');
+      const refined = buildPromptFromTemplate(summary, '', ['a.ts'], {}, 'terse', {
+        previousMessage: 'feat: add thing',
+        feedback: 'mention the migration'
+      });
+      expect(refined).toBe('Describe - a.ts\n\nA previous suggestion for these changes was:\n  feat: add thing\n\nRewrite it following this instruction from the user: mention the migration');
+
+      const regenerated = buildPromptFromTemplate(summary, '', ['a.ts'], {}, 'terse', { previousMessage: 'feat: add thing' });
+      expect(regenerated).toContain('Do not repeat the previous suggestion.');
+      expect(buildPromptFromTemplate(summary, '', ['a.ts'], {}, 'terse', {})).toBe('Describe - a.ts\n');
+
+      fs.writeFileSync(path.join(home, '.gcm', 'templates', 'own.txt'), 'Describe {{fileList}}\n{{#if previousMessage}}Not: {{previousMessage}}{{/if}}\n');
+      const own = buildPromptFromTemplate(summary, '', ['a.ts'], {}, 'own', {
+        previousMessage: 'feat: add thing',
+        feedback: 'mention the migration'
+      });
+      expect(own).not.toContain('A previous suggestion');
+      expect(own).toMatch(/Not: feat: add thing\n\nRewrite it following this instruction from the user: mention the migration$/);
+    });
+  });
+});
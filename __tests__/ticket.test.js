@@ -0,0 +1,48 @@
+const { extractTicket, applyTicket } = require('../lib/ticket');
+
+describe('ticket', () => {
+  describe('extractTicket', () => {
+    test('finds Jira keys and GitHub issue numbers with the default patterns', () => {
+      expect(extractTicket('feature/PROJ-123-login')).toBe('PROJ-123');
+      expect(extractTicket('fix/42-crash-on-start')).toBe('#42');
+      expect(extractTicket('issue-7')).toBe('#7');
+      expect(extractTicket('release/2024-01')).toBeNull();
+      expect(extractTicket('feature/UTF-8-support')).toBeNull();
+      expect(extractTicket('fix/ISO-8859-decoding')).toBeNull();
+      expect(extractTicket('hotfix/2024-01-fix')).toBeNull();
+      expect(extractTicket('fix/20240115-crash')).toBeNull();
+      expect(extractTicket('feature/PROJ-12abc')).toBeNull();
+      expect(extractTicket('feature/UTF-8-PROJ-7')).toBeNull();
+      expect(extractTicket('feature/utf-8/PROJ-7-fix')).toBe('PROJ-7');
+      expect(extractTicket('fix/2048-overflow')).toBe('#2048');
+      expect(extractTicket('main')).toBeNull();
+      expect(extractTicket(null)).toBeNull();
+    });
+
+    test('uses configured patterns and placement', () => {
+      const config = { patterns: ['^(?:feature|fix)/([A-Z]+-\\d+)'] };
+      expect(extractTicket('feature/ABC-9-x', config)).toBe('ABC-9');
+      expect(extractTicket('chore/ABC-9-x', config)).toBeNull();
+      expect(extractTicket('feature/ABC-9-x', { placement: 'none' })).toBeNull();
+    });
+  });
+
+  describe('applyTicket', () => {
+    test('adds a trailer, joining existing trailers', () => {
+      expect(applyTicket('feat: add login', 'PROJ-1')).toBe('feat: add login\n\nRefs: PROJ-1');
+      expect(applyTicket('fix: x\n\nBody text.\n\nSigned-off-by: A <a@b.c>', '#5', { trailer: 'Closes' }))
+        .toBe('fix: x\n\nBody text.\n\nSigned-off-by: A <a@b.c>\nCloses: #5');
+    });
+
+    test('prefixes the description after the conventional type', () => {
+      expect(applyTicket('feat(api): add login\n\nBody', 'PROJ-1', { placement: 'prefix' })).toBe('feat(api): PROJ-1 add login\n\nBody');
+      expect(applyTicket('Add login', 'PROJ-1', { placement: 'prefix' })).toBe('PROJ-1 Add login');
+    });
+
+    test('leaves messages that already carry the ticket alone', () => {
+      expect(applyTicket('feat: add login\n\nRefs: PROJ-1', 'PROJ-1')).toBe('feat: add login\n\nRefs: PROJ-1');
+      expect(applyTicket('feat: PROJ-1 add login', 'PROJ-1', { placement: 'prefix' })).toBe('feat: PROJ-1 add login');
+      expect(applyTicket('Merge branch \'x\'', 'PROJ-1')).toBe('Merge branch \'x\'');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+const { resolveCoAuthor, buildTrailers, appendTrailers, getTrailers, splitMessage } = require('../lib/trailers');
+
+describe('trailers', () => {
+  const saved = { alice: 'Alice Doe <alice@example.com>', Bob: 'Bob Roe <bob@example.com>' };
+
+  describe('resolveCoAuthor', () => {
+    test('accepts identities and saved aliases in any case', () => {
+      expect(resolveCoAuthor('Carol <carol@example.com>')).toBe('Carol <carol@example.com>');
+      expect(resolveCoAuthor('ALICE', saved)).toBe('Alice Doe <alice@example.com>');
+      expect(resolveCoAuthor('bob', saved)).toBe('Bob Roe <bob@example.com>');
+    });
+
+    test('rejects anything else, listing the saved aliases', () => {
+      expect(() => resolveCoAuthor('carol', saved)).toThrow(/"Name <email>" or be one of: alice, Bob/);
+      expect(() => resolveCoAuthor('Carol carol@example.com')).toThrow(/Name <email>/);
+    });
+  });
+
+  describe('buildTrailers', () => {
+    test('puts configured trailers first and drops repeated co-authors', () => {
+      expect(buildTrailers({
+        trailers: ['Reviewed-by: Team <team@example.com>'],
+        coAuthors: ['alice', 'Alice Doe <alice@example.com>', 'bob']
+      }, saved)).toEqual([
+        'Reviewed-by: Team <team@example.com>',
+        'Co-authored-by: Alice Doe <alice@example.com>',
+        'Co-authored-by: Bob Roe <bob@example.com>'
+      ]);
+      expect(buildTrailers({})).toEqual([]);
+    });
+  });
+
+  describe('getTrailers', () => {
+    test('returns the trailer block of a message', () => {
+      expect(getTrailers('wip\n\nBody.\n\nRefs: PROJ-1\nSigned-off-by: A <a@example.com>'))
+        .toEqual(['Refs: PROJ-1', 'Signed-off-by: A <a@example.com>']);
+      expect(getTrailers('2 files changed\n\nmodified: a.ts')).toEqual([]);
+      expect(getTrailers('wip')).toEqual([]);
+    });
+  });
+
+  describe('splitMessage', () => {
+    test('separates subject, body and trailer block', () => {
+      expect(splitMessage('feat: add login\n\nFirst.\n\nSecond.\n\nRefs: PROJ-1\nSigned-off-by: A <a@example.com>\n')).toEqual({
+        subject: 'feat: add login',
+        body: 'First.\n\nSecond.',
+        trailers: ['Refs: PROJ-1', 'Signed-off-by: A <a@example.com>']
+      });
+      expect(splitMessage('2 files changed\n\nmodified: a.ts')).toEqual({ subject: '2 files changed', body: 'modified: a.ts', trailers: [] });
+      expect(splitMessage('fix: x')).toEqual({ subject: 'fix: x', body: '', trailers: [] });
+    });
+  });
+
+  describe('appendTrailers', () => {
+    test('adds a trailer block after the body', () => {
+      expect(appendTrailers('feat: add login\n\nBody text.', ['Co-authored-by: A <a@example.com>']))
+        .toBe('feat: add login\n\nBody text.\n\nCo-authored-by: A <a@example.com>');
+    });
+
+    test('joins an existing block and skips exact duplicates', () => {
+      const message = 'fix: crash\n\nRefs: PROJ-1\nCo-authored-by: A <a@example.com>';
+      expect(appendTrailers(message, ['Co-authored-by: A <a@example.com>', 'Co-authored-by: B <b@example.com>']))
+        .toBe(`${message}\nCo-authored-by: B <b@example.com>`);
+    });
+
+    test('starts a new block after body lines that only look like trailers', () => {
+      expect(appendTrailers('3 files changed\n\nmodified: a.ts, b.ts', ['Refs: PROJ-1', 'Refs: PROJ-1']))
+        .toBe('3 files changed\n\nmodified: a.ts, b.ts\n\nRefs: PROJ-1');
+    });
+
+    test('leaves messages alone when there is nothing to add', () => {
+      expect(appendTrailers('feat: x\n', [])).toBe('feat: x\n');
+      expect(appendTrailers('', ['Refs: 1'])).toBe('');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-const { validateApiKey, maskString, plural, truncate } = require('../lib/utils');
+const { validateApiKey, maskString, plural, truncate, isBinaryBuffer, describeFileType } = require('../lib/utils');
 
 describe('utils', () => {
   describe('validateApiKey', () => {
@@ -48,4 +48,16 @@ describe('utils', () => {
       expect(truncate('short', 50)).toBe('short');
     });
   });
+
+  describe('binary detection', () => {
+    test('treats a NUL byte as binary', () => {
+      expect(isBinaryBuffer(Buffer.from('plain text\n'))).toBe(false);
+      expect(isBinaryBuffer(Buffer.from([0x89, 0x50, 0x00, 0x47]))).toBe(true);
+    });
+
+    test('describes files by signature, then extension', () => {
+      expect(describeFileType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d]), 'logo')).toBe('PNG image');
+      expect(describeFileType(Buffer.from([0x00, 0x01]), 'data.bin')).toBe('bin file');
+    });
+  });
 });
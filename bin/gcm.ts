@@ -1,13 +1,34 @@
 #!/usr/bin/env node
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as readline from 'readline';
 import { Command } from 'commander';
 import Logger from '../lib/logger';
-import { getApiKey, hasConfig, saveConfig, clearConfig, displayConfig, getConfig } from '../lib/config';
-import { isInsideRepo, getStatus, getDiff, stageAll, commit } from '../lib/git';
-import { parseStatus, getChangedFiles, buildSimpleMessage, generateWithGemini, MessageOptions } from '../lib/message';
-import { ConfigError, GitError, APIError, ValidationError } from '../lib/errors';
-import { validateApiKey, maskString } from '../lib/utils';
-import { withProgress } from '../lib/progress';
+import { getApiKey, hasConfig, saveConfig, clearConfig, getConfig, hasCredentials, getLintConfig, resolveConfig, getEffectiveLintConfig, getRepoRoot, Config, SettingName } from '../lib/config';
+import { isInsideRepo, getStatus, getDiff, getDiffBase, getChangesSince, getHead, stageAll, commit, amendCommit, getCommitMessages, getWorkingChanges, getWorkingDiff, getCommentChar } from '../lib/git';
+import { parseStatus, summarizeChanges, getChangedFiles, buildSimpleMessage, generateWithAI, buildMessageResult, hasChanges, MessageOptions, StatusSummary } from '../lib/message';
+import { HookName, isHookName, installHook, uninstallHook, getHookStatus, shouldGenerateForSource, writeMessageToBuffer } from '../lib/hooks';
+import { ConfigError, GitError, TemplateError, ValidationError } from '../lib/errors';
+import { validateApiKey, maskString, readStdin, openInEditor, formatBytes, plural } from '../lib/utils';
+import { getCacheStats, clearAllCache, pruneCache } from '../lib/cache';
+import { lintMessage, fixMessage, formatLintResult } from '../lib/lint';
+import { stripComments } from '../lib/conventional';
+import { getIgnorePatterns, readIgnoreFile, partitionIgnored } from '../lib/ignore';
+import { redactDiff } from '../lib/redact';
+import { getWorkspacePackages } from '../lib/scope';
+import { extractTicket, applyTicket } from '../lib/ticket';
+import { buildTrailers, appendTrailers, getTrailers } from '../lib/trailers';
+import { planReword, checkRewordSafety, backupRef, applyReword } from '../lib/reword';
+import { collectChangelog, formatChangelog, prependChangelog, polishChangelog } from '../lib/changelog';
+import { collectBump, formatBump, applyBump } from '../lib/bump';
+import { detectBaseBranch, readPrTemplate, collectBranchChanges, buildSimplePullRequest, generatePullRequest, formatPullRequest } from '../lib/pr';
+import { listTemplates, getTemplate, saveTemplate, deleteTemplate, templateExists, getTemplatePath, buildPromptFromTemplate, collectPromptContext, DEFAULT_TEMPLATE, PromptContext } from '../lib/templates';
+import { ProviderName, parseProviderName, providerNeedsApiKey, getDefaultBaseUrl } from '../lib/providers';
+import { groupChanges, groupPaths, groupDiff, summarizeGroup, buildGroupMessage, applySplitPlan } from '../lib/split';
+import { getDiffTokenBudget, parseDiff, budgetDiff } from '../lib/budget';
+import { resolveMessageOptions, collectChanges, createMessages } from '../lib/generate';
+import { withProgress, quietStep, Step } from '../lib/progress';
 import CONSTANTS from '../lib/constants';
 import * as packageJson from '../package.json';
 
@@ -15,8 +36,10 @@ const program = new Command();
 
 program
   .name('gcm')
-  .description('Generate intelligent commit messages from git status using AI (Gemini)')
-  .version(packageJson.version);
+  .description('Generate intelligent commit messages from git status using AI (Gemini, OpenAI-compatible, Ollama, Anthropic)')
+  .version(packageJson.version)
+  // Options after a subcommand belong to it ("gcm split -v", "gcm pr --simple")
+  .enablePositionalOptions();
 
 // Config subcommands
 const configCmd = program
@@ -26,25 +49,57 @@ const configCmd = program
 configCmd
   .command('show')
   .alias('status')
-  .description('Show current configuration')
+  .description('Show the effective configuration and where each setting comes from')
   .action(() => {
-    const config = displayConfig();
-    if (config.hasConfig) {
-      console.log('✓ Configuration found');
-      console.log(`  API Key: ${config.apiKey}`);
-      console.log(`  Model: ${config.model}`);
+    try {
+      const resolved = resolveConfig();
+      const { settings } = resolved;
+      const show = (label: string, name: SettingName, value: string) => {
+        console.log(`  ${`${label}:`.padEnd(20)} ${value.padEnd(32)} (${resolved.sources[name]})`);
+      };
+      const list = (values: string[]) => (values.length ? values.join(', ') : 'none');
+
+      console.log(`Global config: ${hasConfig() ? resolved.globalConfigPath : 'not set'}`);
+      console.log(`Repo config:   ${resolved.repoConfigPath || 'not found'}`);
+      console.log(`Ignore file:   ${readIgnoreFile().length ? CONSTANTS.IGNORE_FILE_NAME : 'not found'}`);
+      const repoRoot = getRepoRoot();
+      const packages = repoRoot ? getWorkspacePackages(repoRoot) : [];
+      console.log(`Workspaces:    ${packages.length ? packages.map(p => `${p.scope} (${p.dir})`).join(', ') : 'none'}`);
       console.log('');
-      console.log('To update your API key, run: gcm config set');
-    } else {
-      console.log('No configuration found.');
-      console.log('Run: gcm config set');
+      show('Provider', 'provider', settings.provider);
+      show('API Key', 'apiKey', settings.apiKey ? maskString(settings.apiKey) : 'not set');
+      show('Model', 'model', settings.model);
+      show('Base URL', 'baseUrl', settings.baseUrl || 'provider default');
+      show('Template', 'template', settings.template);
+      show('Style', 'style', settings.style);
+      show('Scopes', 'scopes', list(settings.scopes));
+      show('Scope map', 'scopeMap', list(Object.entries(settings.scopeMap).map(([p, scope]) => `${p} -> ${scope}`)));
+      show('Scope policy', 'scopePolicy', settings.scopePolicy);
+      show('Ignore', 'ignore', list(settings.ignore));
+      show('Max subject length', 'maxSubjectLength', String(settings.maxSubjectLength));
+      show('Max body line', 'maxBodyLineLength', String(settings.maxBodyLineLength));
+      show('Diff token budget', 'diffTokenBudget', String(settings.diffTokenBudget || getDiffTokenBudget(settings.provider, settings.model)));
+      show('Ticket', 'ticket', `${settings.ticket.placement || 'trailer'}${settings.ticket.patterns ? `, ${settings.ticket.patterns.length} pattern(s)` : ', default patterns'}`);
+      show('Trailers', 'trailers', list(settings.trailers));
+      show('Co-authors', 'coAuthors', list(Object.keys(settings.coAuthors)));
+      show('Sign off', 'signoff', settings.signoff ? 'yes' : 'no');
+      show('Redact', 'redact', `built-ins + ${(settings.redact.patterns || []).length} pattern(s), ${(settings.redact.blockPaths || []).length} path(s)`);
+      show('Lint', 'lint', Object.keys(settings.lint).length ? JSON.stringify(settings.lint) : 'defaults');
+      console.log('');
+      console.log('Precedence: defaults < global < repo < env < CLI flags');
+      if (!hasConfig()) {
+        console.log('To store a provider and API key, run: gcm config set');
+      }
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
       process.exit(1);
     }
   });
 
 configCmd
   .command('set')
-  .description('Set or update your Gemini API key and model')
+  .description('Set or update your AI provider, API key and model')
   .action(async () => {
     try {
       const rl = readline.createInterface({
@@ -60,47 +115,87 @@ configCmd
         });
       };
 
-      console.log('Please enter your Google Gemini API key.');
-      console.log(`Get one at: ${CONSTANTS.GEMINI_API_KEY_URL}`);
+      console.log('Available providers:');
+      CONSTANTS.PROVIDERS.forEach((name) => {
+        console.log(`  • ${name} (${CONSTANTS.PROVIDER_LABELS[name]})`);
+      });
       console.log('');
-      
-      const apiKey = await question('API Key: ');
 
-      if (!apiKey) {
+      const providerInput = await question(`Provider (default: ${CONSTANTS.DEFAULT_PROVIDER}): `);
+      let provider: ProviderName;
+      try {
+        provider = parseProviderName(providerInput || CONSTANTS.DEFAULT_PROVIDER);
+      } catch (error) {
         rl.close();
-        console.error('Error: API key cannot be empty.');
+        console.error(`Error: ${(error as Error).message}`);
         process.exit(1);
       }
 
-      if (!validateApiKey(apiKey)) {
-        rl.close();
-        console.error('Error: Invalid API key format.');
-        process.exit(1);
+      let baseUrl = '';
+      const defaultBaseUrl = getDefaultBaseUrl(provider);
+      if (provider === 'openai' || provider === 'ollama') {
+        console.log('');
+        baseUrl = await question(`Base URL (default: ${defaultBaseUrl}): `);
       }
 
+      let apiKey = '';
+      if (providerNeedsApiKey(provider, baseUrl || defaultBaseUrl)) {
+        console.log('');
+        console.log(`Please enter your ${CONSTANTS.PROVIDER_LABELS[provider]} API key.`);
+        console.log(`Get one at: ${CONSTANTS.API_KEY_URLS[provider]}`);
+        console.log('');
+
+        apiKey = await question('API Key: ');
+
+        if (!apiKey) {
+          rl.close();
+          console.error('Error: API key cannot be empty.');
+          process.exit(1);
+        }
+
+        if (!validateApiKey(apiKey)) {
+          rl.close();
+          console.error('Error: Invalid API key format.');
+          process.exit(1);
+        }
+      }
+
+      const models: readonly string[] = CONSTANTS.DEFAULT_MODELS[provider];
       console.log('');
       console.log('Available models:');
-      CONSTANTS.DEFAULT_MODELS.forEach((model) => {
+      models.forEach((model) => {
         console.log(`  • ${model}`);
       });
       console.log('');
       
-      const modelInput = await question(`Model name (default: ${CONSTANTS.DEFAULT_MODELS[0]}): `);
+      const modelInput = await question(`Model name (default: ${models[0]}): `);
       
       rl.close();
 
-      const model = modelInput || CONSTANTS.DEFAULT_MODELS[0];
+      const model = modelInput || models[0];
 
-      const config = {
-        apiKey: apiKey,
+      const config: Config = {
+        provider: provider,
         model: model
       };
+      if (apiKey) {
+        config.apiKey = apiKey;
+      }
+      if (baseUrl) {
+        config.baseUrl = baseUrl;
+      }
 
       saveConfig(config);
       console.log('');
       console.log('✓ Configuration saved successfully!');
-      console.log(`  API Key: ${maskString(apiKey)}`);
+      console.log(`  Provider: ${provider}`);
+      if (apiKey) {
+        console.log(`  API Key: ${maskString(apiKey)}`);
+      }
       console.log(`  Model: ${model}`);
+      if (baseUrl) {
+        console.log(`  Base URL: ${baseUrl}`);
+      }
       console.log('');
       console.log('You can now use gcm to generate AI-powered commit messages.');
     } catch (error) {
@@ -132,147 +227,1195 @@ configCmd
     }
   });
 
+// Template subcommands
+const templateCmd = program
+  .command('template')
+  .description('Manage prompt templates');
+
+templateCmd
+  .command('list')
+  .alias('ls')
+  .description('List available templates')
+  .action(() => {
+    for (const name of listTemplates()) {
+      console.log(`  • ${name}${name === 'default' ? ' (built in)' : ''}`);
+    }
+  });
+
+templateCmd
+  .command('show <name>')
+  .description('Print a template')
+  .action((name: string) => {
+    try {
+      console.log(getTemplate(name));
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+templateCmd
+  .command('add <name>')
+  .description('Create a template from a file, stdin, or in your editor')
+  .option('-f, --file <path>', 'Read the template from a file')
+  .option('--force', 'Overwrite an existing template')
+  .action(async (name: string, options: { file?: string; force?: boolean }) => {
+    try {
+      if (name !== 'default' && templateExists(name) && !options.force) {
+        console.error(`Error: Template "${name}" already exists. Use --force to overwrite or "gcm template edit ${name}".`);
+        process.exit(1);
+      }
+
+      if (options.file) {
+        saveTemplate(name, fs.readFileSync(options.file, 'utf8'));
+      } else if (!process.stdin.isTTY) {
+        saveTemplate(name, await readStdin());
+      } else {
+        // Start from the default template and let the user edit it. If the
+        // editor fails, put back what --force was about to replace.
+        const templatePath = getTemplatePath(name);
+        const original = fs.existsSync(templatePath) ? fs.readFileSync(templatePath, 'utf8') : null;
+        saveTemplate(name, DEFAULT_TEMPLATE);
+        try {
+          openInEditor(templatePath);
+        } catch (error) {
+          if (original === null) {
+            deleteTemplate(name);
+          } else {
+            fs.writeFileSync(templatePath, original);
+          }
+          throw error;
+        }
+      }
+      console.log(`✓ Template "${name}" saved to ${getTemplatePath(name)}`);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+templateCmd
+  .command('edit <name>')
+  .description('Open a template in $EDITOR')
+  .action((name: string) => {
+    try {
+      if (name === 'default') {
+        console.error('Error: The default template is built in. Create a copy with "gcm template add <name>".');
+        process.exit(1);
+      }
+      if (!templateExists(name)) {
+        console.error(`Error: Template "${name}" not found.`);
+        process.exit(1);
+      }
+      openInEditor(getTemplatePath(name));
+      console.log(`✓ Template "${name}" updated.`);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+templateCmd
+  .command('remove <name>')
+  .alias('rm')
+  .description('Delete a custom template')
+  .action((name: string) => {
+    try {
+      if (name === 'default') {
+        console.error('Error: The default template cannot be removed.');
+        process.exit(1);
+      }
+      if (deleteTemplate(name)) {
+        console.log(`✓ Template "${name}" removed.`);
+      } else {
+        console.error(`Error: Template "${name}" not found.`);
+        process.exit(1);
+      }
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+templateCmd
+  .command('preview [name]')
+  .description('Render the prompt for the current changes without calling the AI')
+  .option('-s, --staged', 'Only consider staged changes')
+  .action((name: string | undefined, options: { staged?: boolean }) => {
+    try {
+      const templateName = name || 'default';
+      if (!isInsideRepo()) {
+        console.error('Error: Not a git repository');
+        process.exit(1);
+      }
+      // Render exactly what the configured provider would be sent
+      const { settings } = resolveConfig();
+      const opts: MessageOptions = {
+        stagedOnly: options.staged || false,
+        template: templateName,
+        style: settings.style,
+        ignore: getIgnorePatterns(settings.ignore),
+        scopeMap: settings.scopeMap,
+        scopePolicy: settings.scopePolicy,
+        redact: settings.redact,
+        ticket: settings.ticket,
+        lint: getEffectiveLintConfig(settings)
+      };
+      const budget = settings.diffTokenBudget || getDiffTokenBudget(settings.provider, settings.model);
+      const summary = parseStatus(getStatus(), opts.ignore);
+      const context = collectPromptContext(opts.stagedOnly || false);
+      const files = partitionIgnored(getChangedFiles(summary, opts.stagedOnly || false, context.changes), opts.ignore).kept;
+      const diff = redactDiff(getDiff(files, opts.stagedOnly || false, budget, opts.ignore), opts.redact).diff;
+      console.log(buildPromptFromTemplate(summary, diff, files, opts, templateName, context));
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// Cache subcommands
+const cacheCmd = program
+  .command('cache')
+  .description('Manage the commit message cache');
+
+cacheCmd
+  .command('stats')
+  .description('Show cache size and age')
+  .action(() => {
+    const stats = getCacheStats();
+    console.log(`Cache directory: ${stats.dir}`);
+    console.log(`  Entries: ${stats.entries} (max ${stats.maxEntries})`);
+    console.log(`  Size: ${formatBytes(stats.bytes)} (max ${formatBytes(stats.maxBytes)})`);
+    if (stats.oldest !== null && stats.newest !== null) {
+      console.log(`  Oldest: ${new Date(stats.oldest).toLocaleString()}`);
+      console.log(`  Newest: ${new Date(stats.newest).toLocaleString()}`);
+    }
+  });
+
+cacheCmd
+  .command('clear')
+  .description('Delete all cached messages')
+  .action(() => {
+    const removed = clearAllCache();
+    console.log(`✓ Removed ${removed} cache file(s).`);
+  });
+
+cacheCmd
+  .command('prune')
+  .description('Delete expired entries and enforce size limits')
+  .action(() => {
+    const result = pruneCache();
+    console.log(`✓ Removed ${result.expired} expired and ${result.evicted} least recently used entr${result.evicted === 1 ? 'y' : 'ies'}.`);
+  });
+
+// Lint command
+program
+  .command('lint [file]')
+  .description('Check commit messages against Conventional Commits rules (file, stdin or --range)')
+  .option('-r, --range <range>', 'Lint every commit in a revision range, e.g. origin/main..HEAD')
+  .option('--fix', 'Rewrite the file with auto-fixes applied (subject trimming, body wrapping)')
+  .option('-q, --quiet', 'Only print errors')
+  .action(async (file: string | undefined, options: { range?: string; fix?: boolean; quiet?: boolean }) => {
+    try {
+      const lintConfig = getLintConfig();
+      const inputs: { label: string; message: string }[] = [];
+
+      if (options.range) {
+        for (const info of getCommitMessages(options.range)) {
+          inputs.push({ label: info.sha.slice(0, 7), message: info.message });
+        }
+      } else if (file && file !== '-') {
+        inputs.push({ label: file, message: fs.readFileSync(file, 'utf8') });
+      } else if (!process.stdin.isTTY) {
+        inputs.push({ label: 'stdin', message: await readStdin() });
+      } else {
+        console.error('Error: Provide a message file, pipe a message on stdin, or use --range.');
+        process.exit(1);
+      }
+
+      let failed = 0;
+      for (const input of inputs) {
+        let message = stripComments(input.message, getCommentChar());
+        if (options.fix && file && file !== '-' && !options.range) {
+          message = fixMessage(message, lintConfig);
+          fs.writeFileSync(file, `${message}\n`);
+        }
+
+        const result = lintMessage(message, lintConfig);
+        if (!result.valid) failed += 1;
+
+        const lines = formatLintResult(result).filter(line => !options.quiet || line.startsWith('✗'));
+        if (lines.length === 0) {
+          if (!options.quiet) console.log(`✓ ${input.label}${result.ignored ? ' (skipped)' : ''}`);
+          continue;
+        }
+        const out = result.valid ? console.log : console.error;
+        out(`${result.valid ? '⚠' : '✗'} ${input.label}: ${message.split('\n')[0]}`);
+        lines.forEach(line => out(`  ${line}`));
+      }
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// Spinner on stderr, for output meant for scripts; none if stderr isn't a terminal
+const stderrStep: Step = (message, fn) => (process.stderr.isTTY ? withProgress(message, fn, process.stderr) : fn());
+
+// Generate a single message with AI, falling back to the simple format
+async function createMessage(
+  summary: StatusSummary,
+  opts: MessageOptions,
+  logger: Logger,
+  useAI: boolean,
+  step: Step,
+  extra: PromptContext = {}
+): Promise<string> {
+  const [message] = (await createMessages(summary, opts, logger, useAI, step, extra)).messages;
+  return message;
+}
+
+interface Prompter {
+  ask(prompt: string): Promise<string | null>;
+  pause(): void;
+  resume(): void;
+  close(): void;
+}
+
+// Line-based terminal prompts sharing one readline interface, so piped
+// answers aren't lost between questions (null once input has ended)
+function createPrompter(): Prompter {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+  const lines: string[] = [];
+  let waiting: ((line: string | null) => void) | null = null;
+  let closed = false;
+
+  rl.on('line', (line) => {
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve(line.trim());
+    } else {
+      lines.push(line.trim());
+    }
+  });
+  rl.on('close', () => {
+    closed = true;
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve(null);
+    }
+  });
+
+  return {
+    ask(prompt: string) {
+      process.stdout.write(prompt);
+      if (lines.length) return Promise.resolve(lines.shift() as string);
+      if (closed) return Promise.resolve(null);
+      return new Promise((resolve) => { waiting = resolve; });
+    },
+    pause: () => rl.pause(),
+    resume: () => rl.resume(),
+    close: () => rl.close()
+  };
+}
+
+// Let the user change the message in $EDITOR (an empty result keeps the old one)
+function editMessage(message: string): string {
+  const file = path.join(os.tmpdir(), `gcm-message-${process.pid}.txt`);
+  const help = [
+    '',
+    '# Edit the commit message above. Lines starting with "#" are ignored.',
+    '# Leave the message empty to keep the previous version.',
+    ''
+  ].join('\n');
+  try {
+    fs.writeFileSync(file, `${message}\n${help}`, { mode: 0o600 });
+    openInEditor(file);
+    const edited = stripComments(fs.readFileSync(file, 'utf8'));
+    return edited || message;
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+type ReviewAction = 'accept' | 'edit' | 'regenerate' | 'refine' | 'simple' | 'abort';
+
+const REVIEW_CHOICES: Record<string, ReviewAction> = {
+  '': 'accept', a: 'accept', y: 'accept',
+  e: 'edit',
+  r: 'regenerate',
+  f: 'refine',
+  s: 'simple',
+  q: 'abort', n: 'abort'
+};
+
+// Show the message and loop until it's accepted (returns null on abort)
+async function reviewMessage(
+  prompter: Prompter,
+  initial: string,
+  summary: StatusSummary,
+  opts: MessageOptions,
+  logger: Logger,
+  useAI: boolean,
+  extra: PromptContext = {}
+): Promise<string | null> {
+  let message = initial;
+
+  for (;;) {
+    console.log('');
+    console.log('Generated commit message:');
+    console.log('─'.repeat(72));
+    console.log(message);
+    console.log('─'.repeat(72));
+    console.log('');
+
+    const aiChoices = useAI ? ', [r]egenerate, re[f]ine with feedback' : '';
+    const answer = await prompter.ask(`[a]ccept (Enter), [e]dit${aiChoices}, [s]imple message, [q]uit: `);
+    // Input closed (Ctrl+D or end of piped answers): never commit by accident
+    if (answer === null) {
+      console.log('');
+      return null;
+    }
+    const action = REVIEW_CHOICES[answer.toLowerCase().charAt(0)];
+
+    switch (action) {
+      case 'accept':
+        return message;
+      case 'abort':
+        return null;
+      case 'edit':
+        // The editor owns the terminal until it exits
+        prompter.pause();
+        try {
+          message = editMessage(message);
+        } catch (error) {
+          const err = error as Error;
+          logger.error(err.message);
+        } finally {
+          prompter.resume();
+        }
+        break;
+      case 'simple':
+        message = appendTrailers(buildSimpleMessage(summary, opts), opts.trailers || [], opts.git);
+        break;
+      case 'regenerate':
+      case 'refine': {
+        if (!useAI) {
+          logger.warn('No AI provider configured, cannot regenerate.');
+          break;
+        }
+        const feedback = action === 'refine' ? (await prompter.ask('What should change? ')) || '' : '';
+        if (action === 'refine' && !feedback) {
+          break;
+        }
+        // Feed the current candidate back so the model improves on it
+        message = await createMessage(summary, { ...opts, noCache: true }, logger, true, withProgress, {
+          ...extra,
+          previousMessage: message,
+          feedback: feedback || undefined
+        });
+        break;
+      }
+      default:
+        console.log(`Unknown choice "${answer}".`);
+    }
+  }
+}
+
+// Show numbered candidates and let the user pick one (null on quit)
+async function pickCandidate(prompter: Prompter, candidates: string[]): Promise<string | null> {
+  candidates.forEach((candidate, index) => {
+    console.log('');
+    console.log(`${index + 1})`);
+    console.log(candidate.split('\n').map(line => (line ? `   ${line}` : line)).join('\n'));
+  });
+  console.log('');
+
+  for (;;) {
+    const answer = await prompter.ask(`Pick a message [1-${candidates.length}] (Enter for 1, q to quit): `);
+    // Input closed: keep the first candidate
+    if (answer === null || answer === '') {
+      return candidates[0];
+    }
+    if (answer.toLowerCase() === 'q') {
+      return null;
+    }
+    const choice = parseInt(answer, 10);
+    if (choice >= 1 && choice <= candidates.length) {
+      return candidates[choice - 1];
+    }
+    console.log(`Please enter a number between 1 and ${candidates.length}.`);
+  }
+}
+
+// Choose co-authors from the saved list by number or alias (--pair)
+async function pickCoAuthors(prompter: Prompter, saved: Record<string, string>): Promise<string[] | null> {
+  const aliases = Object.keys(saved);
+  if (aliases.length === 0) {
+    console.log('No saved co-authors. Add them under "coAuthors" in your config.');
+    return [];
+  }
+  aliases.forEach((alias, index) => console.log(`${index + 1}) ${alias} - ${saved[alias]}`));
+
+  for (;;) {
+    const answer = await prompter.ask('Co-authors (numbers or aliases, comma-separated; Enter for none, q to quit): ');
+    if (answer === null || answer === '') {
+      return [];
+    }
+    if (answer.toLowerCase() === 'q') {
+      return null;
+    }
+    const picks = answer.split(/[\s,]+/).filter(Boolean).map(token => (/^\d+$/.test(token)
+      ? aliases[parseInt(token, 10) - 1]
+      : aliases.find(alias => alias.toLowerCase() === token.toLowerCase())));
+    if (picks.every(Boolean)) {
+      return picks as string[];
+    }
+    console.log(`Please enter numbers from 1 to ${aliases.length} or saved aliases.`);
+  }
+}
+
+// Collect a repeatable option into an array
+function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Resolve --hook argument into a supported hook name
+function resolveHookName(name?: string): HookName {
+  const hook = name || CONSTANTS.HOOK_NAMES[0];
+  if (!isHookName(hook)) {
+    console.error(`Error: Unsupported hook "${hook}". Supported hooks: ${CONSTANTS.HOOK_NAMES.join(', ')}`);
+    process.exit(1);
+  }
+  return hook;
+}
+
+// Hook subcommands
+const hookCmd = program
+  .command('hook')
+  .description('Manage the git hook that fills in commit messages during `git commit`');
+
+hookCmd
+  .command('install')
+  .description('Install the prepare-commit-msg (or commit-msg lint) hook; existing hooks are chained, not overwritten')
+  .option('--hook <name>', 'Hook to install', CONSTANTS.HOOK_NAMES[0])
+  .action((options: { hook?: string }) => {
+    try {
+      if (!isInsideRepo()) {
+        console.error('Error: Not a git repository');
+        process.exit(1);
+      }
+      const result = installHook(resolveHookName(options.hook));
+      console.log(`✓ ${result.updated ? 'Updated' : 'Installed'} hook: ${result.path}`);
+      if (result.chained) {
+        console.log(`  Existing hook is chained and runs first: ${result.chained}`);
+      }
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+hookCmd
+  .command('uninstall')
+  .description('Remove the gcm hook and restore any chained hook')
+  .option('--hook <name>', 'Hook to uninstall', CONSTANTS.HOOK_NAMES[0])
+  .action((options: { hook?: string }) => {
+    try {
+      if (!isInsideRepo()) {
+        console.error('Error: Not a git repository');
+        process.exit(1);
+      }
+      const removed = uninstallHook(resolveHookName(options.hook));
+      console.log(removed ? '✓ Hook removed.' : 'No hook installed.');
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+hookCmd
+  .command('status')
+  .description('Show whether the gcm hook is installed')
+  .action(() => {
+    try {
+      if (!isInsideRepo()) {
+        console.error('Error: Not a git repository');
+        process.exit(1);
+      }
+      for (const hook of CONSTANTS.HOOK_NAMES) {
+        const status = getHookStatus(hook);
+        if (status.installed) {
+          console.log(`✓ ${hook}: installed (${status.path})`);
+          if (status.chained) {
+            console.log(`  Chained hook: ${status.chained}`);
+          }
+        } else if (status.foreign) {
+          console.log(`${hook}: another hook is installed (${status.path})`);
+        } else {
+          console.log(`${hook}: not installed`);
+        }
+      }
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// Invoked by the installed hook script, never fails the commit
+hookCmd
+  .command('run <hook> [args...]', { hidden: true })
+  .description('Run a gcm git hook')
+  .action(async (hook: string, args: string[]) => {
+    const logger = new Logger('WARN', false);
+    try {
+      if (hook !== 'prepare-commit-msg') {
+        return;
+      }
+      const [messageFile, source] = args;
+      if (!messageFile || !shouldGenerateForSource(source)) {
+        return;
+      }
+
+      const { settings } = resolveConfig();
+      const opts: MessageOptions = {
+        stagedOnly: true,
+        provider: settings.provider,
+        model: settings.model,
+        baseUrl: settings.baseUrl || undefined,
+        template: settings.template,
+        style: settings.style,
+        diffTokenBudget: settings.diffTokenBudget || undefined,
+        ignore: getIgnorePatterns(settings.ignore),
+        scopeMap: settings.scopeMap,
+        scopePolicy: settings.scopePolicy,
+        redact: settings.redact,
+        ticket: settings.ticket,
+        trailers: buildTrailers({ trailers: settings.trailers, signoff: settings.signoff }),
+        lint: getEffectiveLintConfig(settings)
+      };
+      const summary = parseStatus(getStatus(), opts.ignore);
+      if (!hasChanges(summary, true)) {
+        return;
+      }
+
+      const message = await createMessage(summary, opts, logger, hasCredentials(settings.provider, settings.baseUrl), quietStep);
+      writeMessageToBuffer(messageFile, message);
+    } catch (error) {
+      const err = error as Error;
+      logger.warn(`gcm hook: ${err.message}`);
+    }
+  });
+
+// Split mixed changes into several commits
+program
+  .command('split')
+  .description('Propose atomic commits for the current changes and create them')
+  .option('--simple', 'Use simple messages for each commit (no AI)')
+  .option('--no-ai', 'Same as --simple')
+  .option('--dry-run', 'Only show the plan')
+  .option('-y, --yes', 'Create the commits without asking')
+  .option('-v, --verbose', 'Show verbose output')
+  .option('--signoff', 'Add a Signed-off-by trailer to each commit')
+  .option('--co-author <identity>', 'Add a Co-authored-by trailer to each commit (repeatable)', collectValues, [])
+  .action(async (options: { simple?: boolean; ai?: boolean; dryRun?: boolean; yes?: boolean; verbose?: boolean; signoff?: boolean; coAuthor: string[] }) => {
+    const logger = new Logger('INFO', options.verbose || false);
+    try {
+      if (!isInsideRepo()) {
+        console.error('Error: Not a git repository');
+        process.exit(1);
+      }
+
+      const changes = getWorkingChanges();
+      if (changes.some(c => c.status === 'conflict')) {
+        console.error('Error: Resolve merge conflicts before splitting.');
+        process.exit(1);
+      }
+      if (changes.length === 0) {
+        console.log('No changes detected. Working tree is clean.');
+        return;
+      }
+
+      const { settings } = resolveConfig();
+      const opts: MessageOptions = {
+        simple: options.simple || options.ai === false,
+        verbose: options.verbose || false,
+        provider: settings.provider,
+        model: settings.model,
+        baseUrl: settings.baseUrl || undefined,
+        template: settings.template,
+        style: settings.style,
+        diffTokenBudget: settings.diffTokenBudget || undefined,
+        ignore: getIgnorePatterns(settings.ignore),
+        scopeMap: settings.scopeMap,
+        scopePolicy: settings.scopePolicy,
+        redact: settings.redact,
+        ticket: settings.ticket,
+        trailers: buildTrailers({ trailers: settings.trailers, coAuthors: options.coAuthor, signoff: options.signoff || settings.signoff }, settings.coAuthors),
+        lint: getEffectiveLintConfig(settings)
+      };
+      const useAI = !opts.simple && hasCredentials(settings.provider, settings.baseUrl);
+      const branch = parseStatus(getStatus()).branch;
+      // Grouping reads the diffs: formatting-only hunks and what tests import
+      const diffs = parseDiff(getWorkingDiff(changes.filter(c => c.status === 'untracked').map(c => c.path)));
+      const groups = groupChanges(changes, diffs);
+      const context = collectPromptContext(false);
+      const budget = opts.diffTokenBudget || getDiffTokenBudget(opts.provider, opts.model);
+
+      for (const [index, group] of groups.entries()) {
+        group.message = applyTicket(buildGroupMessage(group), extractTicket(branch, opts.ticket), opts.ticket);
+        if (!useAI) continue;
+        try {
+          const files = groupPaths(group);
+          group.message = await withProgress(`Writing message ${index + 1} of ${groups.length}...`, async () => {
+            const diff = budgetDiff([{ title: null, diff: groupDiff(group, diffs, opts.ignore) }], budget);
+            return await generateWithAI(summarizeGroup(group, branch), diff, files, opts, logger, context);
+          });
+        } catch (error) {
+          const err = error as Error;
+          logger.warn(`Using a simple message for group ${index + 1}: ${err.message}`);
+        }
+      }
+      groups.forEach((group) => {
+        group.message = appendTrailers(group.message, opts.trailers || []);
+      });
+
+      console.log('');
+      console.log(`Proposed commits (${groups.length}):`);
+      groups.forEach((group, index) => {
+        console.log('');
+        console.log(`${index + 1}. ${group.message.split('\n')[0]}`);
+        group.changes.forEach((change) => {
+          const from = change.oldPath ? `${change.oldPath} -> ` : '';
+          const partial = group.partial[change.path];
+          const hunks = partial ? ` (${plural(partial.hunks.length, 'hunk')})` : '';
+          console.log(`     ${change.status.padEnd(9)} ${from}${change.path}${hunks}`);
+        });
+      });
+      console.log('');
+
+      if (options.dryRun) {
+        return;
+      }
+      if (!options.yes) {
+        const prompter = createPrompter();
+        const answer = await prompter.ask(`Create ${groups.length} commit(s)? [y/N] `);
+        prompter.close();
+        if (!answer || !/^y(es)?$/i.test(answer)) {
+          console.log('Cancelled. Nothing was committed.');
+          return;
+        }
+      }
+
+      const result = applySplitPlan(groups);
+      console.log('');
+      console.log(`✓ Created ${result.commits} commit(s)`);
+    } catch (error) {
+      const err = error as Error;
+      logger.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// Rewrite the messages of existing commits
+program
+  .command('reword <range>')
+  .description('Write new messages for a range of commits (e.g. origin/main..HEAD), review them, then rewrite the branch')
+  .option('--simple', 'Use simple messages (no AI)')
+  .option('--dry-run', 'Only show the proposed messages')
+  .option('-y, --yes', 'Use the proposed messages without reviewing them')
+  .option('-f, --force', 'Also reword published commits and ranges with merge commits')
+  .option('-v, --verbose', 'Show verbose output')
+  .action(async (range: string, options: { simple?: boolean; dryRun?: boolean; yes?: boolean; force?: boolean; verbose?: boolean }) => {
+    const logger = new Logger('INFO', options.verbose || false);
+    try {
+      if (!isInsideRepo()) {
+        console.error('Error: Not a git repository');
+        process.exit(1);
+      }
+
+      const plan = planReword(range);
+      checkRewordSafety(plan, options.force || false);
+
+      const { settings } = resolveConfig();
+      const opts: MessageOptions = {
+        stagedOnly: true,
+        simple: options.simple || false,
+        verbose: options.verbose || false,
+        provider: settings.provider,
+        model: settings.model,
+        baseUrl: settings.baseUrl || undefined,
+        template: settings.template,
+        style: settings.style,
+        diffTokenBudget: settings.diffTokenBudget || undefined,
+        ignore: getIgnorePatterns(settings.ignore),
+        scopeMap: settings.scopeMap,
+        scopePolicy: settings.scopePolicy,
+        redact: settings.redact,
+        ticket: settings.ticket,
+        lint: getEffectiveLintConfig(settings)
+      };
+      const useAI = !opts.simple && hasCredentials(settings.provider, settings.baseUrl);
+      const branch = parseStatus(getStatus()).branch;
+
+      const messages = new Map<string, string>();
+      const prompter = options.yes || options.dryRun ? null : createPrompter();
+      try {
+        for (const [index, target] of plan.commits.entries()) {
+          const subject = target.message.split('\n')[0];
+          console.log('');
+          console.log(`Commit ${index + 1} of ${plan.commits.length}: ${target.sha.slice(0, 7)} ${subject}`);
+
+          // Each commit is described by its own diff against its first parent
+          const commitOpts: MessageOptions = { ...opts, diffBase: getDiffBase(target.sha), diffTarget: target.sha };
+          const summary = summarizeChanges(getChangesSince(commitOpts.diffBase as string, target.sha), branch, opts.ignore);
+          if (!hasChanges(summary, true)) {
+            console.log('  No changes, keeping its message.');
+            continue;
+          }
+          const context: PromptContext = { currentMessage: target.message };
+          const [proposed] = (await createMessages(summary, commitOpts, logger, useAI, withProgress, context)).messages;
+          // Sign-offs and other trailers belong to the commit, not the wording
+          const message = appendTrailers(proposed, getTrailers(target.message));
+
+          if (!prompter) {
+            console.log(message.split('\n').map(line => (line ? `  ${line}` : line)).join('\n'));
+            messages.set(target.sha, message);
+            continue;
+          }
+          const finalMessage = await reviewMessage(prompter, message, summary, commitOpts, logger, useAI, context);
+          if (finalMessage === null) {
+            console.log('Cancelled. No commits were rewritten.');
+            return;
+          }
+          messages.set(target.sha, finalMessage);
+        }
+      } finally {
+        if (prompter) {
+          prompter.close();
+        }
+      }
+
+      if (options.dryRun) {
+        return;
+      }
+      const ref = backupRef();
+      const count = await withProgress('Rewriting commits...', async () => {
+        return Promise.resolve(applyReword(plan, messages));
+      });
+      console.log('');
+      if (count === 0) {
+        console.log('All messages are unchanged. Nothing was rewritten.');
+        return;
+      }
+      console.log(`✓ Reworded ${count} commit(s)`);
+      console.log(`  The previous branch tip is saved as ${ref}. To undo: git reset --hard ${ref}`);
+    } catch (error) {
+      const err = error as Error;
+      logger.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// Pull request title and description
+program
+  .command('pr')
+  .description('Write a pull request title and description for the current branch')
+  .option('-b, --base <branch>', 'Branch the PR merges into (default: origin\'s default branch, main or master)')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .option('-t, --template <name>', 'Custom prompt template to use instead of the built-in PR prompt')
+  .option('--simple', 'Build the description from the commit list (no AI)')
+  .option('-v, --verbose', 'Show verbose output')
+  .action(async (options: { base?: string; output?: string; template?: string; simple?: boolean; verbose?: boolean }) => {
+    const logger = new Logger('INFO', options.verbose || false);
+    try {
+      if (!isInsideRepo()) {
+        console.error('Error: Not a git repository');
+        process.exit(1);
+      }
+      if (options.template && !templateExists(options.template)) {
+        console.error(`Error: Template "${options.template}" not found.`);
+        console.error('Run "gcm template list" to see available templates.');
+        process.exit(1);
+      }
+
+      const { settings } = resolveConfig();
+      const opts: MessageOptions = {
+        stagedOnly: true,
+        provider: settings.provider,
+        model: settings.model,
+        baseUrl: settings.baseUrl || undefined,
+        template: options.template,
+        diffTokenBudget: settings.diffTokenBudget || undefined,
+        ignore: getIgnorePatterns(settings.ignore),
+        redact: settings.redact
+      };
+      const branch = parseStatus(getStatus()).branch;
+      const base = options.base || detectBaseBranch(branch);
+      const changes = collectBranchChanges(base, branch, opts);
+      const prTemplate = readPrTemplate();
+      if (options.verbose) {
+        logger.info(`Comparing ${branch || 'HEAD'} with ${base}: ${changes.commits.length} commit(s)`);
+        if (prTemplate) logger.info('Following the repository\'s pull request template');
+      }
+
+      // Only show progress when stdout isn't the output
+      const step: Step = options.output ? withProgress : quietStep;
+      let pr = buildSimplePullRequest(changes, prTemplate);
+      if (!options.simple && hasCredentials(settings.provider, settings.baseUrl)) {
+        try {
+          pr = await step('Writing pull request with AI...', async () => {
+            return await generatePullRequest(changes, opts, prTemplate, logger);
+          });
+        } catch (error) {
+          const err = error as Error;
+          logger.error(`Error generating AI description: ${err.message}`);
+        }
+      }
+
+      const text = formatPullRequest(pr);
+      if (options.output) {
+        fs.writeFileSync(options.output, text);
+        console.log(`✓ Wrote ${options.output}`);
+      } else {
+        process.stdout.write(text);
+      }
+    } catch (error) {
+      const err = error as Error;
+      logger.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// Changelog from Conventional Commits
+program
+  .command('changelog')
+  .description('Write release notes from the Conventional Commits since the last tag')
+  .option('--from <ref>', 'Start after this commit or tag (default: the last tag)')
+  .option('--to <ref>', 'End at this commit or tag (default: HEAD)')
+  .option('--title <name>', 'Release heading (default: the tag at --to, or "Unreleased")')
+  .option('-a, --all', 'List every commit type, not just features, fixes, performance and reverts')
+  .option('-w, --write [file]', `Prepend the release to ${CONSTANTS.CHANGELOG_FILE_NAME} (or the given file)`)
+  .option('--json', 'Print the release as JSON')
+  .option('--ai', 'Polish the wording with the configured AI provider')
+  .option('-v, --verbose', 'Show verbose output')
+  .action(async (options: { from?: string; to?: string; title?: string; all?: boolean; write?: string | boolean; json?: boolean; ai?: boolean; verbose?: boolean }) => {
+    const logger = new Logger('INFO', options.verbose || false);
+    if (options.json && (options.write || options.ai)) {
+      console.error(`Error: --json cannot be combined with ${options.write ? '--write' : '--ai'}.`);
+      process.exit(1);
+    }
+    try {
+      if (!isInsideRepo()) {
+        console.error('Error: Not a git repository');
+        process.exit(1);
+      }
+      const changelog = collectChangelog({ from: options.from, to: options.to, title: options.title, all: options.all });
+      if (options.verbose) {
+        logger.info(`Commits from ${changelog.from || 'the first commit'} to ${changelog.to}`);
+      }
+      if (changelog.skipped > 0) {
+        logger.warn(`Left out ${changelog.skipped} commit(s) that don't follow Conventional Commits`);
+      }
+      if (options.json) {
+        console.log(JSON.stringify(changelog, null, 2));
+        return;
+      }
+
+      let markdown = formatChangelog(changelog);
+      if (options.ai && (changelog.sections.length || changelog.breaking.length)) {
+        const { settings } = resolveConfig();
+        if (!hasCredentials(settings.provider, settings.baseUrl)) {
+          logger.warn('No API key configured; keeping the generated wording.');
+        } else {
+          const opts: MessageOptions = {
+            provider: settings.provider,
+            model: settings.model,
+            baseUrl: settings.baseUrl || undefined
+          };
+          const step: Step = options.write ? withProgress : quietStep;
+          try {
+            markdown = await step('Polishing changelog with AI...', async () => {
+              return await polishChangelog(changelog, opts, logger);
+            });
+          } catch (error) {
+            const err = error as Error;
+            logger.error(`Error polishing changelog: ${err.message}`);
+          }
+        }
+      }
+
+      if (options.write) {
+        const file = typeof options.write === 'string'
+          ? options.write
+          : path.join(getRepoRoot() || process.cwd(), CONSTANTS.CHANGELOG_FILE_NAME);
+        prependChangelog(file, markdown, changelog.title);
+        console.log(`✓ Added ${changelog.title} to ${path.relative(process.cwd(), file) || file}`);
+      } else {
+        process.stdout.write(markdown);
+      }
+    } catch (error) {
+      const err = error as Error;
+      logger.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// Semver recommendation
+program
+  .command('bump')
+  .description('Recommend the next version from the Conventional Commits since the last version tag')
+  .option('--apply', 'Update package.json, commit it and create the tag')
+  .option('--json', 'Print the recommendation as JSON')
+  .action((options: { apply?: boolean; json?: boolean }) => {
+    if (options.apply && options.json) {
+      console.error('Error: --json cannot be combined with --apply.');
+      process.exit(1);
+    }
+    try {
+      if (!isInsideRepo() || !getHead()) {
+        console.error('Error: Not a git repository, or it has no commits yet');
+        process.exit(1);
+      }
+      const rec = collectBump();
+      if (options.json) {
+        console.log(JSON.stringify(rec, null, 2));
+        return;
+      }
+      formatBump(rec).forEach(line => console.log(line));
+      if (!options.apply) {
+        return;
+      }
+
+      console.log('');
+      const result = applyBump(rec);
+      result.files.forEach(file => console.log(`✓ Set version ${rec.next} in ${path.relative(process.cwd(), file) || file}`));
+      console.log(`✓ Tagged ${rec.nextTag}. Push it with: git push --follow-tags`);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
 // Main command
 program
   .option('-s, --staged', 'Only consider staged changes')
   .option('-c, --commit', 'Stage changes, show message, wait for confirmation, then commit')
-  .option('--simple, --no-ai', 'Use simple message format (no AI)')
+  .option('--simple', 'Use simple message format (no AI)')
+  .option('--no-ai', 'Same as --simple')
   .option('-v, --verbose', 'Show verbose output')
-  .action(async (options: { staged?: boolean; commit?: boolean; simple?: boolean; verbose?: boolean }) => {
+  .option('--provider <name>', `AI provider (${CONSTANTS.PROVIDERS.join(', ')})`)
+  .option('--model <name>', 'Model to use for the selected provider')
+  .option('--base-url <url>', 'Base URL for OpenAI-compatible, Ollama or Anthropic endpoints')
+  .option('-t, --template <name>', 'Prompt template to use (see "gcm template list")')
+  .option('--no-cache', 'Ignore cached messages and always call the AI')
+  .option('--candidates <n>', `Generate several alternative messages and pick one (max ${CONSTANTS.MAX_CANDIDATES})`)
+  .option('--json', 'Print the generated message(s) as JSON instead of prompting')
+  .option('--signoff', 'Add a Signed-off-by trailer for the committer')
+  .option('--co-author <identity>', 'Add a Co-authored-by trailer: "Name <email>" or a saved alias (repeatable)', collectValues, [])
+  .option('--pair', 'Pick co-authors from the saved list')
+  .option('--amend', 'Write a new message for the last commit (plus staged changes), review it, then amend')
+  .option('--diff-file <file>', 'Describe a patch file (unified diff) instead of the repository')
+  .option('--stdin', 'Describe a patch read from stdin, e.g. git diff | gcm --stdin')
+  .action(async (options: { staged?: boolean; commit?: boolean; simple?: boolean; ai?: boolean; verbose?: boolean; provider?: string; model?: string; baseUrl?: string; template?: string; cache?: boolean; candidates?: string; json?: boolean; signoff?: boolean; coAuthor: string[]; pair?: boolean; amend?: boolean; diffFile?: string; stdin?: boolean }) => {
     const logger = new Logger('INFO', options.verbose || false);
-    const opts: MessageOptions = {
-      stagedOnly: options.staged || false,
-      commit: options.commit || false,
-      simple: options.simple || false,
-      verbose: options.verbose || false
-    };
+
+    const candidateCount = options.candidates === undefined ? 1 : parseInt(options.candidates, 10);
+    if (!/^\d+$/.test(options.candidates || '1') || candidateCount < 1 || candidateCount > CONSTANTS.MAX_CANDIDATES) {
+      console.error(`Error: --candidates must be a number from 1 to ${CONSTANTS.MAX_CANDIDATES}.`);
+      process.exit(1);
+    }
+    if (options.json && (options.commit || options.pair || options.amend)) {
+      console.error(`Error: --json cannot be combined with ${options.commit ? '--commit' : options.pair ? '--pair' : '--amend'}.`);
+      process.exit(1);
+    }
+    const patchFlag = options.diffFile ? '--diff-file' : options.stdin ? '--stdin' : null;
+    if (options.diffFile && options.stdin) {
+      console.error('Error: Use either --diff-file or --stdin, not both.');
+      process.exit(1);
+    }
+    if (patchFlag && (options.commit || options.amend)) {
+      console.error(`Error: ${patchFlag} cannot be combined with ${options.commit ? '--commit' : '--amend'}; there is nothing to commit.`);
+      process.exit(1);
+    }
+    // The patch takes up stdin, so nothing can be picked interactively
+    if (options.stdin && (options.pair || (candidateCount > 1 && !options.json))) {
+      console.error(`Error: --stdin cannot be combined with ${options.pair ? '--pair' : '--candidates unless --json is used'}.`);
+      process.exit(1);
+    }
+    if (options.diffFile && !fs.existsSync(options.diffFile)) {
+      console.error(`Error: Patch file "${options.diffFile}" not found.`);
+      process.exit(1);
+    }
+    if (options.stdin && process.stdin.isTTY) {
+      console.error('Error: --stdin expects a patch on stdin, e.g. git diff | gcm --stdin');
+      process.exit(1);
+    }
+    if (options.amend && options.commit) {
+      console.error('Error: --amend cannot be combined with --commit; stage what you want to add and run gcm --amend.');
+      process.exit(1);
+    }
+    // Keep stdout clean for JSON output
+    const step: Step = options.json ? stderrStep : withProgress;
 
     try {
+      // CLI flags are the top config layer
+      const { resolved, opts } = resolveMessageOptions({
+        stagedOnly: options.staged,
+        simple: options.simple || options.ai === false,
+        provider: options.provider as ProviderName | undefined,
+        model: options.model,
+        baseUrl: options.baseUrl,
+        template: options.template,
+        noCache: options.cache === false
+      });
+      const { settings } = resolved;
+      opts.commit = options.commit || false;
+      opts.verbose = options.verbose || false;
+
+      const provider = settings.provider;
+      const baseUrl = settings.baseUrl;
+
       // Check if config is required (unless using --simple)
-      if (!opts.simple && !hasConfig() && !process.env.GEMINI_API_KEY) {
-        console.error('Error: API key not configured.');
+      if (!opts.simple && !hasCredentials(provider, baseUrl)) {
+        console.error(`Error: ${CONSTANTS.PROVIDER_LABELS[provider]} API key not configured.`);
         console.error('');
         console.error('Before using AI-powered commit messages, you must configure your API key:');
-        console.error(`  1. Get your API key from: ${CONSTANTS.GEMINI_API_KEY_URL}`);
+        console.error(`  1. Get your API key from: ${CONSTANTS.API_KEY_URLS[provider]}`);
         console.error('  2. Run: gcm config set');
         console.error('  3. Enter your API key when prompted');
+        console.error(`  (or set the ${CONSTANTS.API_KEY_ENV_VARS[provider]} environment variable)`);
         console.error('');
         console.error('Alternatively, use --simple flag for basic message format without AI.');
         process.exit(1);
       }
 
-      // Check if we're in a git repo
-      if (!isInsideRepo()) {
+      // Check if we're in a git repo (a patch needs none)
+      if (!patchFlag && !isInsideRepo()) {
         console.error('Error: Not a git repository');
-        console.error('Run this command from within a git repository.');
+        console.error('Run this command from within a git repository, or describe a patch with --diff-file or --stdin.');
         process.exit(1);
       }
 
-      // Get git status with progress
-      const statusOutput = await withProgress('Analyzing git status...', async () => {
-        return Promise.resolve(getStatus());
-      });
-      const summary = parseStatus(statusOutput);
-
-      // Check if there are any changes
-      const hasChanges = summary.staged.added + summary.staged.modified + summary.staged.deleted +
-        summary.staged.renamed + summary.staged.copied > 0 ||
-        (!opts.stagedOnly && (
-          summary.unstaged.modified + summary.unstaged.deleted +
-          summary.untracked > 0
-        ));
-
-      if (!hasChanges) {
-        const msg = opts.stagedOnly
-          ? 'No staged changes to commit.'
-          : 'No changes detected. Working tree is clean.';
-        console.log(msg);
+      const patch = options.diffFile ? fs.readFileSync(options.diffFile, 'utf8') : options.stdin ? await readStdin() : undefined;
+      const { summary, empty } = await collectChanges(opts, { patch, amend: options.amend }, step);
+      if (empty) {
+        if (options.json) {
+          console.log(JSON.stringify(buildMessageResult(null, summary, opts, [empty]), null, 2));
+          return;
+        }
+        console.log(empty);
         process.exit(0);
       }
 
-      let message: string;
+      // Check if we have API key (from config or env), or the provider needs none
+      const hasApiKey = hasCredentials(provider, baseUrl);
 
-      // Check if we have API key (from config or env)
-      const hasApiKey = hasConfig() || !!process.env.GEMINI_API_KEY;
+      if (opts.verbose && !opts.simple && !hasApiKey) {
+        logger.warn('API key not configured, using simple message format.');
+        logger.info('Run "gcm config set" to configure your API key.');
+      }
 
-      if (opts.simple || !hasApiKey) {
-        // Use simple message format
-        if (opts.verbose && !opts.simple) {
-          logger.warn('API key not configured, using simple message format.');
-          logger.info('Run "gcm config set" to configure your API key.');
+      // Reuse one prompter so piped answers carry over from the co-author and
+      // candidate pickers to the review menu
+      let prompter: Prompter | null = options.pair ? createPrompter() : null;
+      try {
+        const coAuthors = [...options.coAuthor];
+        if (prompter) {
+          const picked = await pickCoAuthors(prompter, settings.coAuthors);
+          if (picked === null) {
+            console.log('Cancelled.');
+            return;
+          }
+          coAuthors.push(...picked);
         }
-        message = await withProgress('Generating commit message...', async () => {
-          return Promise.resolve(buildSimpleMessage(summary, opts));
-        });
-      } else {
-        // Use AI to generate message
-        try {
-          const files = await withProgress('Collecting changed files...', async () => {
-            return Promise.resolve(getChangedFiles(summary, opts.stagedOnly || false));
-          });
+        // Resolved before generating so a bad --co-author fails without an API call
+        opts.trailers = buildTrailers({ trailers: settings.trailers, coAuthors, signoff: options.signoff || settings.signoff }, settings.coAuthors, opts.git);
 
-          const diff = await withProgress('Collecting git diffs...', async () => {
-            return Promise.resolve(getDiff(files, opts.stagedOnly || false));
-          });
+        const generation = await createMessages(summary, opts, logger, hasApiKey, step, {}, candidateCount);
+        const candidates = generation.messages;
 
-          message = await withProgress('Generating commit message with AI...', async () => {
-            return await generateWithGemini(summary, diff, files, opts, logger);
-          });
-        } catch (error) {
-          if (error instanceof APIError) {
-            logger.error(`Error generating AI message: ${error.message}`);
-          } else {
-            const err = error as Error;
-            logger.error(`Error generating AI message: ${err.message}`);
-          }
-          if (opts.verbose) {
-            logger.info('Falling back to simple message format...');
-          }
-          message = await withProgress('Generating simple commit message...', async () => {
-            return Promise.resolve(buildSimpleMessage(summary, opts));
-          });
+        if (options.json) {
+          console.log(JSON.stringify(buildMessageResult(generation, summary, opts), null, 2));
+          return;
         }
-      }
 
-      console.log(message);
+        if (!prompter && (candidates.length > 1 || opts.commit || options.amend)) {
+          prompter = createPrompter();
+        }
+        const message = prompter && candidates.length > 1
+          ? await pickCandidate(prompter, candidates)
+          : candidates[0];
+        if (message === null) {
+          console.log('Cancelled.');
+          return;
+        }
 
-      if (opts.commit) {
-        // Stage all changes first
-        await withProgress('Staging all changes...', async () => {
-          stageAll();
-          return Promise.resolve();
-        });
+        if (options.amend && prompter) {
+          const useAI = !opts.simple && hasApiKey;
+          const finalMessage = await reviewMessage(prompter, message, summary, opts, logger, useAI);
+          if (finalMessage === null) {
+            console.log('Amend cancelled. The last commit is unchanged.');
+            return;
+          }
+          amendCommit(finalMessage);
+          return;
+        }
 
-        // Show the commit message and wait for user confirmation
-        console.log('');
-        console.log('Generated commit message:');
-        console.log('─'.repeat(72));
         console.log(message);
-        console.log('─'.repeat(72));
-        console.log('');
 
-        const rl = readline.createInterface({
-          input: process.stdin,
-          output: process.stdout
-        });
+        if (opts.commit && prompter) {
+          // Stage all changes first
+          await withProgress('Staging all changes...', async () => {
+            stageAll();
+            return Promise.resolve();
+          });
 
-        await new Promise<void>((resolve) => {
-          rl.question('Press Enter to commit, or Ctrl+C to cancel: ', () => {
-            rl.close();
+          // Let the user accept, edit or regenerate before committing
+          const useAI = !opts.simple && hasApiKey;
+          const finalMessage = await reviewMessage(prompter, message, summary, opts, logger, useAI);
+          if (finalMessage === null) {
+            console.log('Commit cancelled. Your changes are still staged.');
+            return;
+          }
 
-            if (opts.verbose) {
-              logger.info('Committing changes...');
-            }
-            commit(message);
-            resolve();
-          });
-        });
+          if (opts.verbose) {
+            logger.info('Committing changes...');
+          }
+          commit(finalMessage);
+        }
+      } finally {
+        if (prompter) {
+          prompter.close();
+        }
       }
     } catch (error) {
       if (error instanceof GitError) {
         logger.error(`Git error: ${error.message}`);
       } else if (error instanceof ConfigError) {
         logger.error(`Config error: ${error.message}`);
+      } else if (error instanceof TemplateError) {
+        logger.error(error.message);
+        console.error('Run "gcm template list" to see available templates.');
       } else {
         const err = error as Error;
         logger.error(`Error: ${err.message}`);
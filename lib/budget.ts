@@ -0,0 +1,215 @@
+// Diff budgeting - fit the most useful parts of a diff into a token budget
+
+import CONSTANTS from './constants';
+
+export interface DiffHunk {
+  header: string; // "@@ -1,4 +1,6 @@ function context"
+  lines: string[];
+}
+
+export interface FileDiff {
+  path: string;
+  header: string[]; // "diff --git", mode, rename and ---/+++ lines
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface DiffSection {
+  title: string | null; // e.g. "=== STAGED CHANGES ==="
+  diff: string;
+}
+
+// Lower is more useful to the model
+export type FilePriority = 0 | 1 | 2 | 3;
+
+const LOW_VALUE_PATTERNS = [
+  /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|go\.sum|poetry\.lock|composer\.lock|Gemfile\.lock)$/,
+  /\.snap$/,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /(^|\/)(dist|build|vendor|node_modules)\//,
+  /\.(svg|lock)$/
+];
+
+// Rough token count (about four characters per token for code and English)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CONSTANTS.CHARS_PER_TOKEN);
+}
+
+// Source first, then tests, then docs/config, lockfiles and generated files last
+export function rankPath(filePath: string): FilePriority {
+  if (LOW_VALUE_PATTERNS.some(p => p.test(filePath))) return 3;
+  if (/\.(md|mdx|rst|txt|json|ya?ml|toml|ini|cfg)$/i.test(filePath)) return 2;
+  if (/(^|\/)(__tests__|tests?|spec)\//.test(filePath) || /\.(test|spec)\.[^/]+$/.test(filePath)) return 1;
+  return 0;
+}
+
+// Diff budget for a model: by model family, then provider default
+export function getDiffTokenBudget(provider?: string | null, model?: string | null): number {
+  const name = (model || '').toLowerCase();
+  const budgets = CONSTANTS.DIFF_TOKEN_BUDGETS as Record<string, number>;
+  const prefix = Object.keys(budgets).find(key => name.startsWith(key));
+  if (prefix) {
+    return budgets[prefix];
+  }
+  // Local models usually run with small context windows
+  return provider === 'ollama' ? CONSTANTS.DIFF_TOKEN_BUDGET_LOCAL : CONSTANTS.DIFF_TOKEN_BUDGET;
+}
+
+// Split unified diff output into per-file diffs
+export function parseDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const m = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+      current = { path: m ? m[2] : line.slice(11), header: [line], hunks: [], additions: 0, deletions: 0, binary: false };
+      hunk = null;
+      files.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith('@@')) {
+      hunk = { header: line, lines: [] };
+      current.hunks.push(hunk);
+    } else if (hunk) {
+      hunk.lines.push(line);
+      if (line.startsWith('+')) current.additions += 1;
+      else if (line.startsWith('-')) current.deletions += 1;
+    } else {
+      // The index line only costs tokens
+      if (!line.startsWith('index ')) current.header.push(line);
+      if (line.startsWith('Binary files ')) current.binary = true;
+    }
+  }
+
+  // Drop the trailing empty line left by the final newline
+  for (const file of files) {
+    const last = file.hunks[file.hunks.length - 1];
+    if (last && last.lines[last.lines.length - 1] === '') last.lines.pop();
+  }
+  return files;
+}
+
+// Unified diff text for a parsed file (without its index line)
+export function renderFile(file: FileDiff): string {
+  return [...file.header, ...file.hunks.flatMap(h => [h.header, ...h.lines])].join('\n');
+}
+
+function stat(file: FileDiff): string {
+  return file.binary ? 'binary' : `+${file.additions}/-${file.deletions}`;
+}
+
+// Render a file within `budget` tokens: whole hunks while they fit, then hunk
+// headers (they carry the function context) with a count of what was cut
+export function trimFileDiff(file: FileDiff, budget: number): string | null {
+  const header = file.header.join('\n');
+  if (estimateTokens(header) > budget) {
+    return null;
+  }
+
+  const out = [header];
+  let used = estimateTokens(header);
+  let trimming = false;
+  let omitted = 0;
+
+  for (const hunk of file.hunks) {
+    const full = [hunk.header, ...hunk.lines].join('\n');
+    const cost = estimateTokens(full) + 1;
+    if (!trimming && used + cost <= budget) {
+      out.push(full);
+      used += cost;
+      continue;
+    }
+
+    const headerCost = estimateTokens(hunk.header) + 10;
+    if (used + headerCost > budget) {
+      omitted += 1;
+      continue;
+    }
+    out.push(hunk.header);
+    used += headerCost;
+
+    // The first hunk that doesn't fit keeps as many leading lines as it can;
+    // later ones keep only their header
+    let kept = 0;
+    if (!trimming) {
+      for (const line of hunk.lines) {
+        const lineCost = estimateTokens(line) + 1;
+        if (used + lineCost > budget) break;
+        out.push(line);
+        used += lineCost;
+        kept += 1;
+      }
+      trimming = true;
+    }
+    const changed = hunk.lines.slice(kept).filter(l => l.startsWith('+') || l.startsWith('-')).length;
+    if (changed > 0) {
+      out.push(`[${changed} changed line(s) omitted]`);
+    }
+  }
+
+  if (omitted > 0) {
+    out.push(`[${omitted} more hunk(s) omitted]`);
+  }
+  return out.join('\n');
+}
+
+// Fit one or more diff sections into a token budget. Files are ranked and
+// share the budget fairly within each rank; whatever is left flows to the next
+// rank. Files that get nothing are listed with their line counts instead.
+export function budgetDiff(sections: DiffSection[], budget: number): string {
+  const entries = sections.flatMap((section, sectionIndex) =>
+    parseDiff(section.diff).map(file => ({
+      sectionIndex,
+      file,
+      rank: rankPath(file.path),
+      cost: estimateTokens(renderFile(file)) + 1,
+      text: null as string | null
+    }))
+  );
+
+  // Reserve room for the summary of dropped files
+  let remaining = Math.max(0, budget - entries.length * 12);
+
+  for (const rank of [0, 1, 2, 3]) {
+    const tier = entries.filter(e => e.rank === rank).sort((a, b) => a.cost - b.cost);
+    tier.forEach((entry, index) => {
+      // Lockfiles and generated files only ever get a glimpse
+      const fair = Math.floor(remaining / (tier.length - index));
+      const share = rank === 3 ? Math.min(fair, CONSTANTS.DIFF_LOW_VALUE_TOKENS) : fair;
+      if (entry.cost <= share) {
+        entry.text = renderFile(entry.file);
+        remaining -= entry.cost;
+        return;
+      }
+      entry.text = trimFileDiff(entry.file, share);
+      if (entry.text) {
+        remaining -= estimateTokens(entry.text) + 1;
+      }
+    });
+  }
+
+  const out: string[] = [];
+  sections.forEach((section, sectionIndex) => {
+    const shown = entries.filter(e => e.sectionIndex === sectionIndex && e.text);
+    if (shown.length === 0) return;
+    if (section.title) out.push(section.title);
+    // Keep git's file order
+    shown.forEach(e => out.push(e.text as string));
+    out.push('');
+  });
+
+  const dropped = entries.filter(e => !e.text);
+  if (dropped.length > 0) {
+    out.push(`[Diff omitted for ${dropped.length} file(s) to fit the budget:]`);
+    dropped.forEach(e => out.push(`- ${e.file.path} (${stat(e.file)})`));
+  }
+
+  return out.join('\n').trim();
+}
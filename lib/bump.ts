@@ -0,0 +1,222 @@
+// Version bump - semver recommendation from the commits since the last release
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGitIn, plural, GitContext } from './utils';
+import { GitError, ValidationError } from './errors';
+import { getCommitMessages, getTags, tagExists, createTag, stageFiles, commit, CommitInfo } from './git';
+import { parseCommitMessage, isIgnoredMessage } from './conventional';
+import { getRepoRoot } from './config';
+
+export type ReleaseType = 'major' | 'minor' | 'patch';
+
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string | null;
+}
+
+export interface BumpCommit {
+  sha: string;
+  header: string;
+}
+
+export interface BumpRecommendation {
+  tag: string | null; // latest semver tag; null if there is none
+  current: string; // version the bump starts from
+  release: ReleaseType | null; // null when there is nothing to release
+  next: string | null;
+  nextTag: string | null;
+  commits: number; // commits since the tag
+  reasons: Record<ReleaseType, BumpCommit[]>; // commits behind each kind of bump
+  other: number; // commits that don't affect the version on their own
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// "v1.2.3" or "1.2.3-beta.1" -> Version; null if it isn't semver
+export function parseVersion(text: string): Version | null {
+  const m = text.trim().match(VERSION_PATTERN);
+  if (!m) {
+    return null;
+  }
+  return { major: Number(m[1]), minor: Number(m[2]), patch: Number(m[3]), prerelease: m[4] || null };
+}
+
+export function formatVersion(version: Version): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease ? `${core}-${version.prerelease}` : core;
+}
+
+// Semver precedence; prerelease identifiers are compared as plain text
+export function compareVersions(a: Version, b: Version): number {
+  const diff = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (diff !== 0) return diff;
+  if (a.prerelease === b.prerelease) return 0;
+  if (a.prerelease === null) return 1;
+  if (b.prerelease === null) return -1;
+  return a.prerelease.localeCompare(b.prerelease, undefined, { numeric: true });
+}
+
+// A prerelease of the version being bumped to is released as that version
+export function incrementVersion(version: Version, release: ReleaseType): Version {
+  const { major, minor, patch, prerelease } = version;
+  if (release === 'major') {
+    return prerelease && minor === 0 && patch === 0 ? { major, minor, patch, prerelease: null } : { major: major + 1, minor: 0, patch: 0, prerelease: null };
+  }
+  if (release === 'minor') {
+    return prerelease && patch === 0 ? { major, minor, patch, prerelease: null } : { major, minor: minor + 1, patch: 0, prerelease: null };
+  }
+  return prerelease ? { major, minor, patch, prerelease: null } : { major, minor, patch: patch + 1, prerelease: null };
+}
+
+// Newest semver tag reachable from HEAD
+export function getLatestVersionTag(git: GitContext = {}): { tag: string; version: Version } | null {
+  let latest: { tag: string; version: Version } | null = null;
+  for (const tag of getTags('HEAD', git)) {
+    const version = parseVersion(tag);
+    if (version && (!latest || compareVersions(version, latest.version) > 0)) {
+      latest = { tag, version };
+    }
+  }
+  return latest;
+}
+
+// Breaking changes make a major release, features a minor one, and
+// everything else a patch
+export function recommendRelease(commits: CommitInfo[]): Pick<BumpRecommendation, 'release' | 'reasons' | 'other'> {
+  const reasons: Record<ReleaseType, BumpCommit[]> = { major: [], minor: [], patch: [] };
+  let other = 0;
+  for (const info of commits) {
+    const parsed = parseCommitMessage(info.message);
+    if (isIgnoredMessage(parsed.header)) continue;
+    const entry = { sha: info.sha, header: parsed.header };
+    const type = (parsed.type || '').toLowerCase();
+    if (parsed.isConventional && parsed.breaking) {
+      reasons.major.push(entry);
+    } else if (type === 'feat') {
+      reasons.minor.push(entry);
+    } else if (type === 'fix') {
+      reasons.patch.push(entry);
+    } else {
+      other += 1;
+    }
+  }
+
+  let release: ReleaseType | null = null;
+  if (reasons.major.length) release = 'major';
+  else if (reasons.minor.length) release = 'minor';
+  else if (reasons.patch.length || other) release = 'patch';
+  return { release, reasons, other };
+}
+
+// The version in package.json at the repository root, if any
+function readPackageVersion(root: string): Version | null {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf8'));
+    return typeof pkg.version === 'string' ? parseVersion(pkg.version) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Recommend the next version from the commits since the latest semver tag.
+// Without a tag, history starts at the first commit and the version at
+// package.json (or 0.0.0).
+export function collectBump(cwd: string = process.cwd()): BumpRecommendation {
+  const git: GitContext = { cwd };
+  const latest = getLatestVersionTag(git);
+  const root = getRepoRoot(cwd) || cwd;
+  const current = latest ? latest.version : readPackageVersion(root) || { major: 0, minor: 0, patch: 0, prerelease: null };
+  const commits = getCommitMessages(latest ? `${latest.tag}..HEAD` : 'HEAD', git);
+  const { release, reasons, other } = recommendRelease(commits);
+  const next = release ? formatVersion(incrementVersion(current, release)) : null;
+  const prefix = latest && !latest.tag.startsWith('v') ? '' : 'v';
+
+  return {
+    tag: latest ? latest.tag : null,
+    current: formatVersion(current),
+    release: release,
+    next: next,
+    nextTag: next ? `${prefix}${next}` : null,
+    commits: commits.length,
+    reasons: reasons,
+    other: other
+  };
+}
+
+// Human-readable reasoning for the recommendation
+export function formatBump(rec: BumpRecommendation): string[] {
+  const since = rec.tag ? `since ${rec.tag}` : 'in history (no version tag yet)';
+  const lines = [`Current version: ${rec.current}, ${plural(rec.commits, 'commit')} ${since}`];
+  if (!rec.release) {
+    lines.push('Nothing to release.');
+    return lines;
+  }
+  lines.push(`Recommended: ${rec.release} -> ${rec.next} (tag ${rec.nextTag})`, '');
+
+  const groups: Array<[ReleaseType, string]> = [['major', 'Breaking changes'], ['minor', 'Features'], ['patch', 'Fixes']];
+  for (const [type, title] of groups) {
+    const commits = rec.reasons[type];
+    if (commits.length === 0) continue;
+    lines.push(`${title} (${type}):`);
+    commits.forEach(c => lines.push(`  ${c.sha.slice(0, 7)} ${c.header}`));
+  }
+  if (rec.other) {
+    const only = rec.release === 'patch' && rec.reasons.patch.length === 0;
+    lines.push(`${only ? 'Only other changes (patch)' : 'Other changes'}: ${plural(rec.other, 'commit')}`);
+  }
+  return lines;
+}
+
+// Write `version` into package.json (and package-lock.json), keeping the
+// files' formatting; returns the files changed
+function writePackageVersion(root: string, version: string): string[] {
+  const changed: string[] = [];
+  const pkgPath = path.join(root, 'package.json');
+  if (!fs.existsSync(pkgPath)) {
+    return changed;
+  }
+  const text = fs.readFileSync(pkgPath, 'utf8');
+  if (/"version"\s*:\s*"[^"]*"/.test(text)) {
+    fs.writeFileSync(pkgPath, text.replace(/("version"\s*:\s*)"[^"]*"/, `$1"${version}"`));
+    changed.push(pkgPath);
+  }
+
+  const lockPath = path.join(root, 'package-lock.json');
+  if (changed.length && fs.existsSync(lockPath)) {
+    const lock = JSON.parse(fs.readFileSync(lockPath, 'utf8'));
+    lock.version = version;
+    if (lock.packages && lock.packages['']) {
+      lock.packages[''].version = version;
+    }
+    fs.writeFileSync(lockPath, `${JSON.stringify(lock, null, 2)}\n`);
+    changed.push(lockPath);
+  }
+  return changed;
+}
+
+// Update package.json, commit it as "chore(release): <tag>" and tag HEAD
+export function applyBump(rec: BumpRecommendation, cwd: string = process.cwd()): { files: string[] } {
+  if (!rec.next || !rec.nextTag) {
+    throw new ValidationError('Nothing to release: no commits since the last version tag', 'release');
+  }
+  const git: GitContext = { cwd };
+  if (tagExists(rec.nextTag, git)) {
+    throw new GitError(`Tag ${rec.nextTag} already exists`);
+  }
+  const dirty = runGitIn(git, ['status', '--porcelain', '--untracked-files=no']).stdout.trim();
+  if (dirty) {
+    throw new GitError('Commit or stash your changes before bumping the version.');
+  }
+
+  const root = getRepoRoot(cwd) || cwd;
+  const files = writePackageVersion(root, rec.next);
+  if (files.length) {
+    stageFiles(files, git);
+    commit(`chore(release): ${rec.nextTag}`, git);
+  }
+  createTag(rec.nextTag, rec.nextTag, git);
+  return { files };
+}
@@ -1,4 +1,4 @@
-// Cache commit messages based on diff content
+// Cache commit messages keyed on the diff and everything that shapes the prompt
 
 import * as crypto from 'crypto';
 import * as fs from 'fs';
@@ -8,16 +8,60 @@ import CONSTANTS from './constants';
 
 interface CacheData {
   message: string;
+  messages?: string[]; // candidate set (message is the first one)
   timestamp: number;
-  diffHash: string;
+  lastAccess: number;
+  key: string;
 }
 
-const CACHE_DIR = path.join(os.homedir(), CONSTANTS.CONFIG_DIR_NAME, 'cache');
-const CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Everything that changes the generated message
+export interface CacheKeyInput {
+  provider: string;
+  model: string;
+  template: string;
+  templateContent: string;
+  options: Record<string, unknown>;
+  diff: string;
+  files: string[];
+  fileHashes: string[];
+}
+
+export interface CacheStats {
+  dir: string;
+  entries: number;
+  bytes: number;
+  oldest: number | null;
+  newest: number | null;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface PruneResult {
+  expired: number;
+  evicted: number;
+}
+
+interface CacheFile {
+  filePath: string;
+  size: number;
+  data: CacheData | null;
+}
+
+const CACHE_DIR = path.join(os.homedir(), CONSTANTS.CONFIG_DIR_NAME, CONSTANTS.CACHE_DIR_NAME);
 
-// Hash diff content to create cache key
-function generateCacheKey(diff: string): string {
-  return crypto.createHash('sha256').update(diff).digest('hex');
+// Hash the key input (field order is fixed by the interface)
+export function buildCacheKey(input: CacheKeyInput): string {
+  const normalized = {
+    provider: input.provider,
+    model: input.model,
+    template: input.template,
+    templateContent: input.templateContent,
+    options: Object.keys(input.options).sort().map(k => [k, input.options[k]]),
+    diff: input.diff,
+    files: [...input.files].sort(),
+    fileHashes: input.fileHashes
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
 }
 
 // Get path for cache file
@@ -28,10 +72,35 @@ function getCachePath(key: string): string {
   return path.join(CACHE_DIR, `${key}.json`);
 }
 
-// Get cached message if it exists and isn't expired
-export function getCachedMessage(diff: string): string | null {
+// Read every cache entry (unparseable entries have data: null)
+function readCacheFiles(): CacheFile[] {
+  if (!fs.existsSync(CACHE_DIR)) {
+    return [];
+  }
+
+  const entries: CacheFile[] = [];
+  for (const file of fs.readdirSync(CACHE_DIR)) {
+    if (!file.endsWith('.json')) continue;
+
+    const filePath = path.join(CACHE_DIR, file);
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      const data = JSON.parse(content) as CacheData;
+      entries.push({ filePath, size: Buffer.byteLength(content), data });
+    } catch (error) {
+      entries.push({ filePath, size: 0, data: null });
+    }
+  }
+  return entries;
+}
+
+function lastUsed(data: CacheData): number {
+  return data.lastAccess || data.timestamp;
+}
+
+// Get cached candidate messages if they exist and aren't expired
+export function getCachedMessages(key: string): string[] | null {
   try {
-    const key = generateCacheKey(diff);
     const cachePath = getCachePath(key);
 
     if (!fs.existsSync(cachePath)) {
@@ -42,80 +111,154 @@ export function getCachedMessage(diff: string): string | null {
     const age = Date.now() - cacheData.timestamp;
 
     // Expired? Delete it
-    if (age > CACHE_MAX_AGE) {
+    if (age > CONSTANTS.CACHE_MAX_AGE) {
       fs.unlinkSync(cachePath);
       return null;
     }
 
-    return cacheData.message;
+    // Record the hit for LRU eviction
+    cacheData.lastAccess = Date.now();
+    fs.writeFileSync(cachePath, JSON.stringify(cacheData, null, 2), { mode: 0o600 });
+
+    // Entries written before candidate sets hold a single message
+    return cacheData.messages && cacheData.messages.length ? cacheData.messages : [cacheData.message];
   } catch (error) {
     // Cache read failed, just return null
     return null;
   }
 }
 
-// Save message to cache
-export function cacheMessage(diff: string, message: string): void {
+// Get cached message if it exists and isn't expired
+export function getCachedMessage(key: string): string | null {
+  const messages = getCachedMessages(key);
+  return messages ? messages[0] : null;
+}
+
+// Save a candidate set to cache
+export function cacheMessages(key: string, messages: string[]): void {
+  if (messages.length === 0) {
+    return;
+  }
   try {
-    const key = generateCacheKey(diff);
     const cachePath = getCachePath(key);
+    const now = Date.now();
 
     const cacheData: CacheData = {
-      message: message,
-      timestamp: Date.now(),
-      diffHash: key
+      message: messages[0],
+      messages: messages,
+      timestamp: now,
+      lastAccess: now,
+      key: key
     };
 
     fs.writeFileSync(cachePath, JSON.stringify(cacheData, null, 2), { mode: 0o600 });
+    enforceCacheLimits();
   } catch (error) {
     // Cache write failed - not critical, just continue
   }
 }
 
-// Remove expired cache files
-export function clearOldCache(): void {
+// Save message to cache
+export function cacheMessage(key: string, message: string): void {
+  cacheMessages(key, [message]);
+}
+
+// Where generated messages are cached, by key
+export interface MessageCache {
+  get(key: string): string[] | null;
+  set(key: string, messages: string[]): void;
+}
+
+// The cache in ~/.gcm/cache
+export const diskCache: MessageCache = {
+  get: getCachedMessages,
+  set: cacheMessages
+};
+
+// Evict least recently used entries until under the entry and byte caps
+export function enforceCacheLimits(
+  maxEntries: number = CONSTANTS.CACHE_MAX_ENTRIES,
+  maxBytes: number = CONSTANTS.CACHE_MAX_BYTES
+): number {
+  let evicted = 0;
   try {
-    if (!fs.existsSync(CACHE_DIR)) {
-      return;
+    const entries = readCacheFiles().filter(e => e.data !== null);
+    let count = entries.length;
+    let bytes = entries.reduce((sum, e) => sum + e.size, 0);
+    if (count <= maxEntries && bytes <= maxBytes) {
+      return 0;
     }
 
-    const files = fs.readdirSync(CACHE_DIR);
-    const now = Date.now();
-
-    for (const file of files) {
-      if (!file.endsWith('.json')) continue;
+    entries.sort((a, b) => lastUsed(a.data as CacheData) - lastUsed(b.data as CacheData));
+    for (const entry of entries) {
+      if (count <= maxEntries && bytes <= maxBytes) break;
+      fs.unlinkSync(entry.filePath);
+      count -= 1;
+      bytes -= entry.size;
+      evicted += 1;
+    }
+  } catch (error) {
+    // Eviction failed, try again on the next write
+  }
+  return evicted;
+}
 
-      const filePath = path.join(CACHE_DIR, file);
-      try {
-        const cacheData = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CacheData;
-        const age = now - cacheData.timestamp;
+// Remove expired cache files
+export function clearOldCache(): number {
+  let removed = 0;
+  try {
+    const now = Date.now();
 
-        if (age > CACHE_MAX_AGE) {
-          fs.unlinkSync(filePath);
-        }
-      } catch (error) {
-        // Corrupted file? Delete it
-        fs.unlinkSync(filePath);
+    for (const entry of readCacheFiles()) {
+      // Corrupted file? Delete it
+      if (entry.data === null || now - entry.data.timestamp > CONSTANTS.CACHE_MAX_AGE) {
+        fs.unlinkSync(entry.filePath);
+        removed += 1;
       }
     }
   } catch (error) {
     // Cleanup failed, not a big deal
   }
+  return removed;
+}
+
+// Remove expired entries, then enforce size limits
+export function pruneCache(): PruneResult {
+  const expired = clearOldCache();
+  const evicted = enforceCacheLimits();
+  return { expired, evicted };
 }
 
 // Delete all cache files
-export function clearAllCache(): void {
+export function clearAllCache(): number {
+  let removed = 0;
   try {
     if (fs.existsSync(CACHE_DIR)) {
       const files = fs.readdirSync(CACHE_DIR);
       for (const file of files) {
         fs.unlinkSync(path.join(CACHE_DIR, file));
+        removed += 1;
       }
     }
   } catch (error) {
     // Ignore errors
   }
+  return removed;
+}
+
+export function getCacheStats(): CacheStats {
+  const entries = readCacheFiles().filter(e => e.data !== null);
+  const times = entries.map(e => (e.data as CacheData).timestamp);
+
+  return {
+    dir: CACHE_DIR,
+    entries: entries.length,
+    bytes: entries.reduce((sum, e) => sum + e.size, 0),
+    oldest: times.length ? Math.min(...times) : null,
+    newest: times.length ? Math.max(...times) : null,
+    maxEntries: CONSTANTS.CACHE_MAX_ENTRIES,
+    maxBytes: CONSTANTS.CACHE_MAX_BYTES
+  };
 }
 
-// Clean up old entries when module loads
-clearOldCache();
+export { CACHE_DIR };
@@ -0,0 +1,209 @@
+// Changelog - release notes from Conventional Commit history
+
+import * as fs from 'fs';
+import { retry } from './utils';
+import { APIError, ValidationError } from './errors';
+import { getCommitMessages, getLatestTag, getTagsAt, getCommitDate, CommitInfo } from './git';
+import { parseCommitMessage, isIgnoredMessage, getBreakingNote } from './conventional';
+import { openProviderSession, withModelFallback, MessageOptions } from './message';
+import { buildChangelogPrompt } from './templates';
+import CONSTANTS from './constants';
+import Logger from './logger';
+
+export interface ChangelogEntry {
+  sha: string;
+  type: string;
+  scope: string | null;
+  description: string;
+  body: string;
+  breaking: string | null; // the breaking change note
+}
+
+export interface ChangelogSection {
+  type: string;
+  title: string;
+  entries: ChangelogEntry[];
+}
+
+export interface Changelog {
+  title: string; // release heading: the tag, or "Unreleased"
+  date: string;
+  from: string | null; // null means from the first commit
+  to: string;
+  sections: ChangelogSection[];
+  breaking: ChangelogEntry[];
+  skipped: number; // commits that don't follow Conventional Commits
+}
+
+export interface ChangelogOptions {
+  from?: string;
+  to?: string;
+  title?: string;
+  all?: boolean; // list every commit type, not just CHANGELOG_DEFAULT_TYPES
+}
+
+export interface ChangelogRange {
+  from: string | null;
+  to: string;
+  title: string;
+}
+
+// Default range: from the last tag before `to` up to `to`. When `to` is
+// itself tagged, the release is named after that tag.
+export function resolveChangelogRange(opts: ChangelogOptions = {}): ChangelogRange {
+  const to = opts.to || 'HEAD';
+  let tags: string[];
+  try {
+    tags = getTagsAt(to);
+  } catch (error) {
+    throw new ValidationError(`Unknown revision "${to}"`, 'to');
+  }
+  const from = opts.from || getLatestTag(tags.length ? `${to}^` : to);
+  return { from: from, to: to, title: opts.title || tags[0] || 'Unreleased' };
+}
+
+// Scoped entries first, grouped by scope, then unscoped ones; commit order within each
+function sortByScope(entries: ChangelogEntry[]): ChangelogEntry[] {
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => {
+      if (a.entry.scope !== b.entry.scope) {
+        if (a.entry.scope === null) return 1;
+        if (b.entry.scope === null) return -1;
+        return a.entry.scope.localeCompare(b.entry.scope);
+      }
+      return a.index - b.index;
+    })
+    .map(item => item.entry);
+}
+
+// Group commits (oldest first) into sections by type
+export function buildChangelog(commits: CommitInfo[], range: ChangelogRange, date: string, all: boolean = false): Changelog {
+  const entries: ChangelogEntry[] = [];
+  let skipped = 0;
+  for (const commit of commits) {
+    const parsed = parseCommitMessage(commit.message);
+    if (isIgnoredMessage(parsed.header)) continue;
+    if (!parsed.isConventional || !parsed.type) {
+      skipped += 1;
+      continue;
+    }
+    entries.push({
+      sha: commit.sha,
+      type: parsed.type.toLowerCase(),
+      scope: parsed.scope || null,
+      description: parsed.description,
+      body: parsed.body,
+      breaking: getBreakingNote(parsed)
+    });
+  }
+
+  const known = Object.keys(CONSTANTS.CHANGELOG_SECTIONS);
+  const shown = all ? null : new Set<string>(CONSTANTS.CHANGELOG_DEFAULT_TYPES);
+  const types = Array.from(new Set(entries.map(e => e.type)))
+    .filter(type => !shown || shown.has(type))
+    .sort((a, b) => {
+      const ia = known.indexOf(a);
+      const ib = known.indexOf(b);
+      if (ia !== ib) return (ia === -1 ? known.length : ia) - (ib === -1 ? known.length : ib);
+      return a.localeCompare(b);
+    });
+
+  return {
+    title: range.title,
+    date: date,
+    from: range.from,
+    to: range.to,
+    sections: types.map(type => ({
+      type: type,
+      title: CONSTANTS.CHANGELOG_SECTIONS[type] || type,
+      entries: sortByScope(entries.filter(e => e.type === type))
+    })),
+    breaking: sortByScope(entries.filter(e => e.breaking)),
+    skipped: skipped
+  };
+}
+
+// Read the commits in the range and build the changelog
+export function collectChangelog(opts: ChangelogOptions = {}): Changelog {
+  const range = resolveChangelogRange(opts);
+  let commits: CommitInfo[];
+  try {
+    commits = getCommitMessages(range.from ? `${range.from}..${range.to}` : range.to).reverse();
+  } catch (error) {
+    throw new ValidationError(`Invalid range: ${(error as Error).message}`, 'from');
+  }
+  if (commits.length === 0) {
+    throw new ValidationError(`No commits between ${range.from} and ${range.to}`, 'from');
+  }
+  return buildChangelog(commits, range, getCommitDate(range.to), opts.all);
+}
+
+function formatEntry(entry: ChangelogEntry, text: string): string {
+  return `- ${entry.scope ? `**${entry.scope}:** ` : ''}${text} (${entry.sha.slice(0, 7)})`;
+}
+
+// The release as a markdown section ("## v1.2.0 (2024-05-01)")
+export function formatChangelog(changelog: Changelog): string {
+  const lines = [`## ${changelog.title} (${changelog.date})`];
+  if (changelog.breaking.length) {
+    lines.push('', '### ⚠ BREAKING CHANGES', '');
+    changelog.breaking.forEach(e => lines.push(formatEntry(e, (e.breaking as string).replace(/\n/g, ' '))));
+  }
+  for (const section of changelog.sections) {
+    lines.push('', `### ${section.title}`, '');
+    section.entries.forEach(e => lines.push(formatEntry(e, e.description)));
+  }
+  if (!changelog.breaking.length && !changelog.sections.length) {
+    lines.push('', 'No notable changes.');
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Put a release section at the top of a changelog file, below its "# Title"
+// heading. An "Unreleased" section is replaced; any other release that is
+// already in the file is refused.
+export function prependChangelog(file: string, section: string, title: string): void {
+  let existing = fs.existsSync(file) ? fs.readFileSync(file, 'utf8').replace(/\r\n/g, '\n') : '# Changelog\n';
+  existing = existing.replace(/^## \[?Unreleased\]?(?:[ \t][^\n]*)?\n[\s\S]*?(?=^## |(?![\s\S]))/m, '');
+  const escaped = title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (new RegExp(`^## \\[?${escaped}\\]?(\\s|$)`, 'm').test(existing)) {
+    throw new ValidationError(`${file} already has a section for ${title}`, 'title');
+  }
+
+  // Keep a leading "# Changelog" heading and any intro text above the first release
+  const firstRelease = existing.search(/^## /m);
+  const intro = firstRelease === -1 ? existing.trimEnd() : existing.slice(0, firstRelease).trimEnd();
+  const rest = firstRelease === -1 ? '' : existing.slice(firstRelease).trimEnd();
+  const parts = [intro, section.trim(), rest].filter(Boolean);
+  fs.writeFileSync(file, `${parts.join('\n\n')}\n`);
+}
+
+// The release section reworded by the configured AI provider; headings,
+// entries and commit hashes must survive
+export async function polishChangelog(changelog: Changelog, opts: MessageOptions, logger?: Logger): Promise<string> {
+  const session = openProviderSession(opts);
+  const markdown = formatChangelog(changelog);
+  const listed = new Map<string, ChangelogEntry>();
+  [...changelog.breaking, ...changelog.sections.flatMap(s => s.entries)].forEach(e => listed.set(e.sha, e));
+  const commits = Array.from(listed.values()).map((e) => {
+    const header = `${e.sha.slice(0, 7)} ${e.type}${e.scope ? `(${e.scope})` : ''}: ${e.description}`;
+    return e.body ? `${header}\n\n${e.body}` : header;
+  });
+  const prompt = buildChangelogPrompt(markdown, commits);
+  const hashes = Array.from(listed.keys()).map(sha => `(${sha.slice(0, 7)})`);
+
+  const result = await withModelFallback(session, model => retry(async () => {
+    let text = (await session.provider.generate(prompt, model)).trim();
+    const fenced = text.match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+    if (fenced) {
+      text = fenced[1].trim();
+    }
+    const missing = hashes.filter(hash => !text.includes(hash));
+    if (!text.startsWith('## ') || missing.length) {
+      throw new APIError(`Polished changelog lost ${missing.length} of ${hashes.length} entries`, 'INVALID_RESPONSE');
+    }
+    return `${text}\n`;
+  }, CONSTANTS.API_RETRY_ATTEMPTS), logger);
+  return result.value;
+}
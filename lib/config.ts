@@ -1,21 +1,96 @@
 // Config management - handles API keys and settings
+//
+// Settings are layered, later layers win:
+//   defaults < global (~/.gcm/config.json) < repo (.gcmrc.json or "gcm" in package.json) < env < CLI flags
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { ConfigError, ValidationError } from './errors';
-import { validateApiKey, maskString } from './utils';
+import { validateApiKey, maskString, runGit } from './utils';
+import { ProviderName, isProviderName, parseProviderName, providerNeedsApiKey, getDefaultBaseUrl } from './providers';
+import { LintConfig, compileScopePattern } from './lint';
+import { RedactConfig, compilePatterns } from './redact';
+import { ScopePolicy } from './scope';
+import { TicketConfig, compileTicketPatterns } from './ticket';
+import { isIdentity, isTrailer } from './trailers';
 import CONSTANTS from './constants';
 
-export interface Config {
-  apiKey: string;
+export type MessageStyle = 'conventional' | 'plain';
+
+// Settings a repository may commit (never credentials, nor where they are sent)
+export interface ProjectConfig {
+  provider?: ProviderName;
   model?: string;
+  template?: string;
+  style?: MessageStyle;
+  scopes?: string[];
+  scopeMap?: Record<string, string>;
+  scopePolicy?: ScopePolicy;
+  ignore?: string[];
+  maxSubjectLength?: number;
+  maxBodyLineLength?: number;
+  diffTokenBudget?: number;
+  redact?: RedactConfig;
+  ticket?: TicketConfig;
+  trailers?: string[];
+  coAuthors?: Record<string, string>;
+  signoff?: boolean;
+  lint?: LintConfig;
+}
+
+export interface Config extends ProjectConfig {
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export type ConfigSource = 'default' | 'global' | 'repo' | 'env' | 'cli';
+
+// Fully resolved settings
+export interface Settings {
+  provider: ProviderName;
+  model: string;
+  baseUrl: string | null;
+  apiKey: string | null;
+  template: string;
+  style: MessageStyle;
+  scopes: string[];
+  scopeMap: Record<string, string>; // path -> scope, before workspace packages
+  scopePolicy: ScopePolicy; // when a change spans several scopes
+  ignore: string[];
+  maxSubjectLength: number;
+  maxBodyLineLength: number;
+  diffTokenBudget: number | null; // null = based on the model
+  redact: RedactConfig;
+  ticket: TicketConfig;
+  trailers: string[]; // "Token: value" lines added to every message
+  coAuthors: Record<string, string>; // alias -> "Name <email>"
+  signoff: boolean;
+  lint: LintConfig;
+}
+
+export type SettingName = keyof Settings;
+
+export interface ResolvedConfig {
+  settings: Settings;
+  sources: Record<SettingName, ConfigSource>;
+  globalConfigPath: string;
+  repoConfigPath: string | null;
+}
+
+interface ConfigLayer {
+  source: ConfigSource;
+  values: Config;
+  // Provider the layer's model/baseUrl/apiKey belong to (null = any)
+  provider: ProviderName | null;
 }
 
 export interface DisplayConfig {
   hasConfig: boolean;
+  provider?: string;
   apiKey?: string;
   model?: string;
+  baseUrl?: string;
 }
 
 const CONFIG_DIR = path.join(os.homedir(), CONSTANTS.CONFIG_DIR_NAME);
@@ -41,7 +116,9 @@ export function getConfig(): Config | null {
   return null;
 }
 
-// Save config to file with secure permissions
+// Save the provider settings to the global config file with secure
+// permissions. The provider, model, base URL and key are replaced as a set;
+// every other global setting (redact, trailers, ...) is kept.
 export function saveConfig(config: Config): boolean {
   try {
     if (!config || typeof config !== 'object') {
@@ -52,6 +129,10 @@ export function saveConfig(config: Config): boolean {
       throw new ValidationError('Invalid API key format', 'apiKey');
     }
     
+    if (config.provider !== undefined && !isProviderName(config.provider)) {
+      throw new ValidationError(`Unknown provider "${config.provider}"`, 'provider');
+    }
+    
     // Create config dir if needed
     if (!fs.existsSync(CONFIG_DIR)) {
       fs.mkdirSync(CONFIG_DIR, {
@@ -60,10 +141,14 @@ export function saveConfig(config: Config): boolean {
       });
     }
     
+    const merged: Record<string, unknown> = { ...(getConfig() || {}) };
+    (['provider', ...PROVIDER_BOUND] as string[]).forEach((name) => { delete merged[name]; });
+    Object.assign(merged, config);
+
     // Write with restricted permissions
     fs.writeFileSync(
       CONFIG_FILE,
-      JSON.stringify(config, null, 2),
+      JSON.stringify(merged, null, 2),
       { mode: CONSTANTS.CONFIG_FILE_PERMISSIONS }
     );
     
@@ -77,33 +162,343 @@ export function saveConfig(config: Config): boolean {
   }
 }
 
+const SETTING_NAMES: SettingName[] = [
+  'provider', 'model', 'baseUrl', 'apiKey', 'template', 'style', 'scopes', 'scopeMap', 'scopePolicy', 'ignore',
+  'maxSubjectLength', 'maxBodyLineLength', 'diffTokenBudget', 'redact', 'ticket', 'trailers', 'coAuthors', 'signoff', 'lint'
+];
+
+// Settings tied to one provider
+const PROVIDER_BOUND: SettingName[] = ['model', 'baseUrl', 'apiKey'];
+
+// Keys a committed repo config must never contain: names that end in a secret
+// word ("apiKey", "openaiToken"), not settings that merely mention one
+// ("diffTokenBudget")
+const SECRET_KEY_PATTERN = /(api[_-]?key|token|secret|password|credentials?)$/i;
+
+const repoRootCache = new Map<string, string | null>();
+
+// Top level of the repository containing cwd, or null outside one
+export function getRepoRoot(cwd: string = process.cwd()): string | null {
+  if (!repoRootCache.has(cwd)) {
+    let root: string | null = null;
+    try {
+      root = runGit(['rev-parse', '--show-toplevel'], { cwd }).stdout.trim() || null;
+    } catch (error) {
+      // Not in a repository - no repo config
+    }
+    repoRootCache.set(cwd, root);
+  }
+  return repoRootCache.get(cwd) || null;
+}
+
+// Check types of config values, naming the file that holds a bad one
+function validateConfigValues(values: Record<string, unknown>, origin: string): Config {
+  const fail = (key: string, expected: string) => {
+    throw new ConfigError(`Invalid "${key}" in ${origin}: expected ${expected}`);
+  };
+  const isStringArray = (v: unknown) => Array.isArray(v) && v.every(item => typeof item === 'string');
+  const isPositiveInt = (v: unknown) => typeof v === 'number' && Number.isInteger(v) && v > 0;
+
+  if (values.provider !== undefined && !isProviderName(values.provider)) fail('provider', CONSTANTS.PROVIDERS.join(' | '));
+  for (const key of ['model', 'baseUrl', 'template'] as const) {
+    if (values[key] !== undefined && typeof values[key] !== 'string') fail(key, 'a string');
+  }
+  if (values.style !== undefined && !(CONSTANTS.MESSAGE_STYLES as readonly unknown[]).includes(values.style)) {
+    fail('style', CONSTANTS.MESSAGE_STYLES.join(' | '));
+  }
+  for (const key of ['scopes', 'ignore'] as const) {
+    if (values[key] !== undefined && !isStringArray(values[key])) fail(key, 'an array of strings');
+  }
+  if (values.scopeMap !== undefined) {
+    const map = values.scopeMap as Record<string, unknown>;
+    if (typeof map !== 'object' || map === null || Array.isArray(map) || Object.values(map).some(v => typeof v !== 'string')) {
+      fail('scopeMap', 'an object of path: scope strings');
+    }
+  }
+  if (values.scopePolicy !== undefined && !(CONSTANTS.SCOPE_POLICIES as readonly unknown[]).includes(values.scopePolicy)) {
+    fail('scopePolicy', CONSTANTS.SCOPE_POLICIES.join(' | '));
+  }
+  for (const key of ['maxSubjectLength', 'maxBodyLineLength', 'diffTokenBudget'] as const) {
+    if (values[key] !== undefined && !isPositiveInt(values[key])) fail(key, 'a positive integer');
+  }
+  if (values.redact !== undefined) {
+    const redact = values.redact as Record<string, unknown>;
+    if (typeof redact !== 'object' || redact === null || Array.isArray(redact)) fail('redact', 'an object');
+    for (const key of ['patterns', 'blockPaths']) {
+      if (redact[key] !== undefined && !isStringArray(redact[key])) fail(`redact.${key}`, 'an array of strings');
+    }
+    compilePatterns(redact.patterns as string[] | undefined);
+  }
+  if (values.ticket !== undefined) {
+    const ticket = values.ticket as Record<string, unknown>;
+    if (typeof ticket !== 'object' || ticket === null || Array.isArray(ticket)) fail('ticket', 'an object');
+    if (ticket.patterns !== undefined && !isStringArray(ticket.patterns)) fail('ticket.patterns', 'an array of strings');
+    compileTicketPatterns((ticket.patterns as string[] | undefined) || []);
+    if (ticket.placement !== undefined && !(CONSTANTS.TICKET_PLACEMENTS as readonly unknown[]).includes(ticket.placement)) {
+      fail('ticket.placement', CONSTANTS.TICKET_PLACEMENTS.join(' | '));
+    }
+    if (ticket.trailer !== undefined && (typeof ticket.trailer !== 'string' || !/^[A-Za-z][\w-]*$/.test(ticket.trailer))) {
+      fail('ticket.trailer', 'a trailer token such as "Refs"');
+    }
+  }
+  if (values.trailers !== undefined && !(isStringArray(values.trailers) && (values.trailers as string[]).every(isTrailer))) {
+    fail('trailers', 'an array of "Token: value" strings');
+  }
+  if (values.coAuthors !== undefined) {
+    const coAuthors = values.coAuthors as Record<string, unknown>;
+    if (typeof coAuthors !== 'object' || coAuthors === null || Array.isArray(coAuthors) ||
+        Object.values(coAuthors).some(v => typeof v !== 'string' || !isIdentity(v))) {
+      fail('coAuthors', 'an object of alias: "Name <email>" strings');
+    }
+  }
+  if (values.signoff !== undefined && typeof values.signoff !== 'boolean') fail('signoff', 'true or false');
+  if (values.lint !== undefined) {
+    const lint = values.lint as Record<string, unknown>;
+    if (typeof lint !== 'object' || lint === null || Array.isArray(lint)) fail('lint', 'an object');
+    if (lint.scopePattern !== undefined && typeof lint.scopePattern !== 'string') fail('lint.scopePattern', 'a string');
+    compileScopePattern(lint.scopePattern as string | undefined);
+  }
+  return values as Config;
+}
+
+// Load .gcmrc.json, or the "gcm" key of package.json, from the repository root
+export function getRepoConfig(cwd: string = process.cwd()): { path: string; config: ProjectConfig } | null {
+  const root = getRepoRoot(cwd);
+  if (!root) {
+    return null;
+  }
+
+  const rcPath = path.join(root, CONSTANTS.REPO_CONFIG_FILE_NAME);
+  const pkgPath = path.join(root, 'package.json');
+  let raw: unknown = undefined;
+  let origin = '';
+
+  try {
+    if (fs.existsSync(rcPath)) {
+      origin = rcPath;
+      raw = JSON.parse(fs.readFileSync(rcPath, 'utf8'));
+    } else if (fs.existsSync(pkgPath)) {
+      const pkg = JSON.parse(fs.readFileSync(pkgPath, 'utf8'));
+      if (pkg && typeof pkg === 'object' && pkg.gcm !== undefined) {
+        origin = `${pkgPath} ("gcm" key)`;
+        raw = pkg.gcm;
+      }
+    }
+  } catch (error) {
+    const err = error as Error;
+    throw new ConfigError(`Failed to read repository config: ${err.message}`, err);
+  }
+
+  if (raw === undefined) {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(`${origin} must contain a JSON object`);
+  }
+
+  const secrets = Object.keys(raw).filter(key => SECRET_KEY_PATTERN.test(key));
+  if (secrets.length > 0) {
+    throw new ConfigError(
+      `${origin} must not contain API keys or other secrets (found: ${secrets.join(', ')}). ` +
+      'Use "gcm config set" or an environment variable instead.'
+    );
+  }
+  // The API key goes wherever baseUrl points, so only the user may set it
+  if ((raw as Record<string, unknown>).baseUrl !== undefined) {
+    throw new ConfigError(
+      `${origin} must not set "baseUrl": API keys are sent to it. ` +
+      'Use "gcm config set" or GCM_BASE_URL instead.'
+    );
+  }
+
+  return { path: origin, config: validateConfigValues(raw as Record<string, unknown>, origin) };
+}
+
+// Settings from environment variables for the given provider
+function getEnvConfig(provider: ProviderName): Config {
+  const env: Config = {};
+  const model = process.env.GCM_MODEL || (provider === 'gemini' ? process.env.GEMINI_MODEL : undefined);
+  if (model) env.model = model;
+  if (process.env.GCM_BASE_URL) env.baseUrl = process.env.GCM_BASE_URL;
+  if (process.env.GCM_TEMPLATE) env.template = process.env.GCM_TEMPLATE;
+  if (process.env.GCM_STYLE) env.style = process.env.GCM_STYLE as MessageStyle;
+  const apiKey = process.env[CONSTANTS.API_KEY_ENV_VARS[provider]];
+  if (apiKey) env.apiKey = apiKey;
+  return validateConfigValues(env as Record<string, unknown>, 'environment');
+}
+
+// Drop undefined values so they don't shadow lower layers
+function definedOnly(values: Config): Config {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null && value !== '') out[key] = value;
+  }
+  return out as Config;
+}
+
+// Merge all layers into effective settings, recording where each came from
+export function resolveConfig(cli: Config = {}, cwd: string = process.cwd()): ResolvedConfig {
+  const global = getConfig() || {};
+  const repo = getRepoConfig(cwd);
+  const cliValues = definedOnly(cli);
+  if (cliValues.provider) {
+    cliValues.provider = parseProviderName(cliValues.provider);
+  }
+
+  // The provider decides which provider-bound values apply, so resolve it first
+  const envProvider = process.env.GCM_PROVIDER ? parseProviderName(process.env.GCM_PROVIDER) : undefined;
+  const provider: ProviderName = cliValues.provider || envProvider || repo?.config.provider || global.provider || CONSTANTS.DEFAULT_PROVIDER;
+
+  const defaults: Settings = {
+    provider: provider,
+    model: CONSTANTS.DEFAULT_MODELS[provider][0],
+    baseUrl: getDefaultBaseUrl(provider),
+    apiKey: null,
+    template: 'default',
+    style: 'conventional',
+    scopes: [],
+    scopeMap: {},
+    scopePolicy: 'none',
+    ignore: [],
+    maxSubjectLength: CONSTANTS.MAX_SUBJECT_LENGTH,
+    maxBodyLineLength: CONSTANTS.MAX_BODY_LINE_LENGTH,
+    diffTokenBudget: null,
+    redact: {},
+    ticket: {},
+    trailers: [],
+    coAuthors: {},
+    signoff: false,
+    lint: {}
+  };
+
+  const layers: ConfigLayer[] = [
+    // Configs written before providers existed are Gemini configs
+    { source: 'global', values: definedOnly(global), provider: getConfiguredProvider(global) },
+    { source: 'repo', values: definedOnly(repo ? repo.config : {}), provider: repo?.config.provider || null },
+    { source: 'env', values: definedOnly({ ...getEnvConfig(provider), provider: envProvider }), provider: null },
+    { source: 'cli', values: cliValues, provider: null }
+  ];
+
+  const settings: Settings = { ...defaults };
+  const sources = {} as Record<SettingName, ConfigSource>;
+  SETTING_NAMES.forEach(name => { sources[name] = 'default'; });
+
+  for (const layer of layers) {
+    for (const name of SETTING_NAMES) {
+      const value = (layer.values as Record<string, unknown>)[name];
+      if (value === undefined) continue;
+      if (PROVIDER_BOUND.includes(name) && layer.provider && layer.provider !== provider) continue;
+
+      if (name === 'lint') {
+        const current = settings.lint;
+        const next = value as LintConfig;
+        settings.lint = { ...current, ...next, rules: { ...(current.rules || {}), ...(next.rules || {}) } };
+      } else if (name === 'coAuthors') {
+        // Personal and team lists combine
+        settings.coAuthors = { ...settings.coAuthors, ...(value as Record<string, string>) };
+      } else if (name === 'ticket') {
+        settings.ticket = { ...settings.ticket, ...(value as TicketConfig) };
+      } else if (name === 'redact') {
+        // Redaction only ever grows: a repo cannot drop patterns set globally
+        const current = settings.redact;
+        const next = value as RedactConfig;
+        settings.redact = {
+          patterns: [...(current.patterns || []), ...(next.patterns || [])],
+          blockPaths: [...(current.blockPaths || []), ...(next.blockPaths || [])]
+        };
+      } else {
+        (settings as unknown as Record<string, unknown>)[name] = value;
+      }
+      sources[name] = layer.source;
+    }
+  }
+  settings.provider = provider;
+
+  return {
+    settings,
+    sources,
+    globalConfigPath: CONFIG_FILE,
+    repoConfigPath: repo ? repo.path : null
+  };
+}
+
+// Lint rules with the configured lengths and scopes folded in
+export function getEffectiveLintConfig(settings: Settings): LintConfig {
+  // Plain messages have no type prefix to check
+  const styleRules: LintConfig['rules'] = settings.style === 'plain'
+    ? { 'header-format': 'off', 'type-enum': 'off' }
+    : {};
+  return {
+    ...settings.lint,
+    rules: { ...styleRules, ...(settings.lint.rules || {}) },
+    maxSubjectLength: settings.lint.maxSubjectLength || settings.maxSubjectLength,
+    maxBodyLineLength: settings.lint.maxBodyLineLength || settings.maxBodyLineLength,
+    scopes: settings.lint.scopes || (settings.scopes.length ? settings.scopes : undefined)
+  };
+}
+
+// Provider stored in config (configs written before providers existed are Gemini)
+function getConfiguredProvider(config: Config | null): ProviderName {
+  return config?.provider && isProviderName(config.provider) ? config.provider : CONSTANTS.DEFAULT_PROVIDER;
+}
+
 // Check if we have valid config
 export function hasConfig(): boolean {
   const config = getConfig();
-  return config !== null && config.apiKey !== undefined && validateApiKey(config.apiKey);
+  if (config === null) {
+    return false;
+  }
+  const provider = getConfiguredProvider(config);
+  if (!providerNeedsApiKey(provider, config.baseUrl)) {
+    return true;
+  }
+  return config.apiKey !== undefined && validateApiKey(config.apiKey);
 }
 
-// Get API key from config or env var
-export function getApiKey(): string | null {
-  const config = getConfig();
-  return config?.apiKey || process.env.GEMINI_API_KEY || null;
+// Get provider from flag, env, repo or global config, or use default. `cwd`
+// picks the repository whose config applies, here and below.
+export function getProviderName(override?: string | null, cwd: string = process.cwd()): ProviderName {
+  return resolveConfig({ provider: (override || undefined) as ProviderName | undefined }, cwd).settings.provider;
 }
 
-// Get model from config, env, or use default
-export function getModel(defaultModel: string): string {
-  const config = getConfig();
-  return config?.model || process.env.GEMINI_MODEL || defaultModel;
+// Get API key from env var or config (a stored key is only used for its own provider)
+export function getApiKey(provider: ProviderName = getProviderName(), cwd: string = process.cwd()): string | null {
+  return resolveConfig({ provider }, cwd).settings.apiKey;
+}
+
+// Get model from env, repo or global config, or use default
+export function getModel(defaultModel: string, provider: ProviderName = getProviderName(), cwd: string = process.cwd()): string {
+  const resolved = resolveConfig({ provider }, cwd);
+  return resolved.sources.model === 'default' ? defaultModel : resolved.settings.model;
+}
+
+// Get base URL from env or config, or use the provider default
+export function getBaseUrl(provider: ProviderName = getProviderName(), cwd: string = process.cwd()): string | null {
+  return resolveConfig({ provider }, cwd).settings.baseUrl;
+}
+
+// Check whether the provider can be called (key available or not needed)
+export function hasCredentials(provider: ProviderName = getProviderName(), baseUrl?: string | null, cwd: string = process.cwd()): boolean {
+  const url = baseUrl !== undefined ? baseUrl : getBaseUrl(provider, cwd);
+  return !providerNeedsApiKey(provider, url) || !!getApiKey(provider, cwd);
+}
+
+// Lint rules from the effective config
+export function getLintConfig(): LintConfig {
+  return getEffectiveLintConfig(resolveConfig().settings);
 }
 
 // Get config for display (with masked API key)
 export function displayConfig(): DisplayConfig {
   const config = getConfig();
   if (hasConfig() && config) {
-    const maskedKey = maskString(config.apiKey);
+    const provider = getConfiguredProvider(config);
     return {
       hasConfig: true,
-      apiKey: maskedKey,
+      provider: provider,
+      apiKey: config.apiKey ? maskString(config.apiKey) : 'not set',
       model: config.model || 'default',
+      baseUrl: config.baseUrl || getDefaultBaseUrl(provider) || undefined,
     };
   }
   return { hasConfig: false };
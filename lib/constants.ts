@@ -1,22 +1,104 @@
 // App-wide constants and config
 export const CONSTANTS = {
   // Git operations
-  MAX_DIFF_SIZE: 50000, // ~50KB of diff content
-  MAX_FILES_FOR_DIFF: 20,
+  MAX_FILES_FOR_DIFF: 200, // paths passed to a single git diff call
+  MAX_UNTRACKED_FILE_SIZE: 1024 * 1024, // larger new files are only described
+  CHARS_PER_TOKEN: 4,
+  DIFF_TOKEN_BUDGET: 12000, // approximate tokens of diff per prompt
+  DIFF_TOKEN_BUDGET_LOCAL: 4000,
+  DIFF_LOW_VALUE_TOKENS: 200, // cap per lockfile / generated file
+  // Diff budgets by model name prefix
+  DIFF_TOKEN_BUDGETS: {
+    'gemini': 32000,
+    'gpt-4o': 24000,
+    'gpt-4': 16000,
+    'claude': 24000,
+    'llama': 4000,
+    'mistral': 4000,
+    'qwen': 6000
+  },
   MAX_FILE_SAMPLES: 10,
   MAX_FILE_LIST_DISPLAY: 30,
+  RECENT_COMMITS_COUNT: 5,
+  
+  // Redaction (always on before diffs are sent)
+  REDACT_BLOCK_PATHS: ['*.pem', '*.key', '*.p12', '*.pfx', '*.jks', '*.keystore', 'id_rsa*', 'id_dsa*', 'id_ecdsa*', 'id_ed25519*', '.env*', '.netrc', '.npmrc', '.pypirc'],
+  REDACT_MIN_TOKEN_LENGTH: 32,
+  REDACT_MIN_ENTROPY: 4.2,
+  
+  // Ticket references from branch names
+  TICKET_PATTERNS: [
+    // feature/PROJ-123-login, but not encodings and standards such as UTF-8 or ISO-8859
+    '(?:^|/)(?!(?:UTF|UCS|ISO|CP|SHA|MD|RFC|ES|ECMA|HTTP|TLS)-\\d)([A-Z][A-Z0-9]+-\\d+)(?![A-Za-z0-9])',
+    // fix/123-crash, but not dates such as hotfix/2024-01-fix
+    '^(?:feature|feat|fix|bugfix|hotfix|chore|docs|refactor|perf|test)/(?!(?:19|20)\\d\\d[-_.]?(?:0[1-9]|1[0-2])(?:[-_.]?(?:0[1-9]|[12]\\d|3[01]))?(?!\\d))(\\d+)(?:[-_]|$)',
+    // issue-123, gh-123
+    '(?:^|/)(?:issue|gh)-(\\d+)(?:[-_]|$)'
+  ],
+  TICKET_TRAILER: 'Refs',
+  TICKET_PLACEMENTS: ['trailer', 'prefix', 'none'] as const,
   
   // API configuration
-  DEFAULT_MODELS: [
-    'gemini-3-flash-preview',
-    'gemini-3-pro-preview',
-    'gemini-1.5-flash',
-    'gemini-1.5-pro',
-    'gemini-pro'
-  ] as const,
+  DEFAULT_PROVIDER: 'gemini',
+  PROVIDERS: ['gemini', 'openai', 'ollama', 'anthropic'] as const,
+  PROVIDER_LABELS: {
+    gemini: 'Gemini',
+    openai: 'OpenAI-compatible',
+    ollama: 'Ollama',
+    anthropic: 'Anthropic',
+  },
+  
+  // Model fallback list per provider (first entry is the default)
+  DEFAULT_MODELS: {
+    gemini: [
+      'gemini-3-flash-preview',
+      'gemini-3-pro-preview',
+      'gemini-1.5-flash',
+      'gemini-1.5-pro',
+      'gemini-pro'
+    ],
+    openai: [
+      'gpt-4o-mini',
+      'gpt-4o'
+    ],
+    ollama: [
+      'llama3.1',
+      'qwen2.5-coder',
+      'mistral'
+    ],
+    anthropic: [
+      'claude-3-5-haiku-latest',
+      'claude-3-5-sonnet-latest'
+    ],
+  },
+  
+  DEFAULT_BASE_URLS: {
+    openai: 'https://api.openai.com/v1',
+    ollama: 'http://localhost:11434/v1',
+    anthropic: 'https://api.anthropic.com/v1',
+  },
+  
+  API_KEY_ENV_VARS: {
+    gemini: 'GEMINI_API_KEY',
+    openai: 'OPENAI_API_KEY',
+    ollama: 'OLLAMA_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+  },
+  
+  API_TIMEOUT: 60000, // ms
+  API_MAX_OUTPUT_TOKENS: 1024,
+  ANTHROPIC_API_VERSION: '2023-06-01',
   
   // Retry configuration
   API_RETRY_ATTEMPTS: 3,
+  MAX_CANDIDATES: 5,
+  // Extra instruction for each alternative after the first (cycled)
+  CANDIDATE_VARIATIONS: [
+    'Make this alternative a concise, subject-only message.',
+    'Make this alternative more detailed, with a short body explaining why.',
+    'Make this alternative consider a different commit type or scope.',
+    'Make this alternative focus on the user-visible effect of the change.'
+  ],
   API_RETRY_DELAY: 1000, // ms
   API_RETRY_BACKOFF: 2,
   
@@ -26,15 +108,67 @@ export const CONSTANTS = {
   // Message formatting
   MAX_SUBJECT_LENGTH: 72,
   MAX_BODY_LINE_LENGTH: 72,
+  COMMIT_TYPES: ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'] as const,
+  SCOPE_PATTERN: '^[a-z0-9][a-z0-9._-]*$',
+
+  // Pull requests
+  PR_TITLE_MAX_LENGTH: 72,
+  PR_BASE_BRANCHES: ['main', 'master', 'develop', 'trunk'],
+  PR_TEMPLATE_PATHS: [
+    '.github/pull_request_template.md',
+    '.github/PULL_REQUEST_TEMPLATE.md',
+    'pull_request_template.md',
+    'PULL_REQUEST_TEMPLATE.md',
+    'docs/pull_request_template.md',
+    'docs/PULL_REQUEST_TEMPLATE.md'
+  ],
+
+  // Changelog
+  CHANGELOG_FILE_NAME: 'CHANGELOG.md',
+  // Section titles by commit type, in the order they are listed
+  CHANGELOG_SECTIONS: {
+    feat: 'Features',
+    fix: 'Bug Fixes',
+    perf: 'Performance Improvements',
+    revert: 'Reverts',
+    refactor: 'Code Refactoring',
+    docs: 'Documentation',
+    style: 'Styles',
+    test: 'Tests',
+    build: 'Build System',
+    ci: 'Continuous Integration',
+    chore: 'Chores'
+  } as Record<string, string>,
+  CHANGELOG_DEFAULT_TYPES: ['feat', 'fix', 'perf', 'revert'], // others only with --all
+  
+  // Cache
+  CACHE_DIR_NAME: 'cache',
+  CACHE_MAX_AGE: 7 * 24 * 60 * 60 * 1000, // 7 days
+  CACHE_MAX_ENTRIES: 200,
+  CACHE_MAX_BYTES: 2 * 1024 * 1024, // 2MB
+  
+  // Git hooks
+  HOOK_NAMES: ['prepare-commit-msg', 'commit-msg'] as const,
+  HOOK_CHAINED_SUFFIX: '.gcm-chained',
   
   // Config
   CONFIG_DIR_NAME: '.gcm',
   CONFIG_FILE_NAME: 'config.json',
+  REPO_CONFIG_FILE_NAME: '.gcmrc.json',
+  IGNORE_FILE_NAME: '.gcmignore',
+  MESSAGE_STYLES: ['conventional', 'plain'] as const,
+  SCOPE_POLICIES: ['none', 'multi'] as const,
   CONFIG_DIR_PERMISSIONS: 0o700,
   CONFIG_FILE_PERMISSIONS: 0o600,
   
   // URLs
   GEMINI_API_KEY_URL: 'https://aistudio.google.com/apikey',
+  API_KEY_URLS: {
+    gemini: 'https://aistudio.google.com/apikey',
+    openai: 'https://platform.openai.com/api-keys',
+    ollama: 'https://ollama.com/download',
+    anthropic: 'https://console.anthropic.com/settings/keys',
+  },
 } as const;
 
 export default CONSTANTS;
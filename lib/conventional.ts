@@ -0,0 +1,112 @@
+// Conventional Commits parser (shared by lint, changelog and version bump)
+
+export interface CommitFooter {
+  token: string;
+  value: string;
+}
+
+export interface ConventionalCommit {
+  header: string;
+  type: string | null;
+  scope: string | null;
+  breaking: boolean;
+  description: string;
+  body: string;
+  footers: CommitFooter[];
+  isConventional: boolean;
+}
+
+// type(scope)!: description
+const HEADER_PATTERN = /^(\w[\w-]*)(?:\(([^()]*)\))?(!)?:(?: +(.*))?$/;
+const FOOTER_PATTERN = /^(BREAKING CHANGE|BREAKING-CHANGE|[\w-]+)(?:: | #)(.*)$/;
+
+// Git's generated messages aren't expected to follow the convention
+const IGNORED_PATTERNS = [
+  /^Merge (branch|pull request|remote-tracking branch|tag|commit) /,
+  /^Merged? .* into /,
+  /^Revert "/,
+  /^(fixup|squash|amend)! /,
+  /^Initial commit$/i
+];
+
+export function isIgnoredMessage(header: string): boolean {
+  return IGNORED_PATTERNS.some(p => p.test(header.trim()));
+}
+
+// Remove git comment lines and anything below the scissors line
+export function stripComments(message: string, commentChar: string = '#'): string {
+  const lines = message.split(/\r?\n/);
+  const out: string[] = [];
+  for (const line of lines) {
+    if (line.startsWith(`${commentChar} ------------------------ >8 ------------------------`)) break;
+    if (line.startsWith(commentChar)) continue;
+    out.push(line);
+  }
+  return out.join('\n').trim();
+}
+
+// Split the trailing footer paragraph (trailers, BREAKING CHANGE) from the body
+function splitFooters(paragraphs: string[]): { body: string[]; footers: CommitFooter[] } {
+  if (paragraphs.length === 0) {
+    return { body: [], footers: [] };
+  }
+
+  const last = paragraphs[paragraphs.length - 1].split('\n');
+  if (!FOOTER_PATTERN.test(last[0])) {
+    return { body: paragraphs, footers: [] };
+  }
+
+  const footers: CommitFooter[] = [];
+  for (const line of last) {
+    const m = line.match(FOOTER_PATTERN);
+    if (m) {
+      footers.push({ token: m[1], value: m[2].trim() });
+    } else if (footers.length && /^\s/.test(line)) {
+      // Folded continuation line
+      footers[footers.length - 1].value += `\n${line.trim()}`;
+    } else {
+      return { body: paragraphs, footers: [] };
+    }
+  }
+  return { body: paragraphs.slice(0, -1), footers };
+}
+
+// Parse a commit message (comments should already be stripped)
+export function parseCommitMessage(message: string): ConventionalCommit {
+  const text = message.replace(/\r\n/g, '\n').trim();
+  const [header = '', ...rest] = text.split('\n');
+  const paragraphs = rest.join('\n').trim().split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const { body, footers } = splitFooters(paragraphs);
+
+  const m = header.match(HEADER_PATTERN);
+  const breakingFooter = footers.some(f => f.token === 'BREAKING CHANGE' || f.token === 'BREAKING-CHANGE');
+
+  return {
+    header: header,
+    type: m ? m[1] : null,
+    scope: m && m[2] !== undefined ? m[2] : null,
+    breaking: (!!m && m[3] === '!') || breakingFooter,
+    description: m ? (m[4] || '').trim() : header.trim(),
+    body: body.join('\n\n'),
+    footers: footers,
+    isConventional: !!m
+  };
+}
+
+// Text of the BREAKING CHANGE footer, or the description for "type!:" commits
+export function getBreakingNote(commit: ConventionalCommit): string | null {
+  const footer = commit.footers.find(f => f.token === 'BREAKING CHANGE' || f.token === 'BREAKING-CHANGE');
+  if (footer) return footer.value;
+  return commit.breaking ? commit.description : null;
+}
+
+// Append a "Token: value" trailer, joining the trailer block if there is one.
+// Only capitalized tokens count, so a body line like "modified: a.ts" doesn't.
+export function addTrailer(message: string, token: string, value: string): string {
+  const text = message.replace(/\r\n/g, '\n').trim();
+  const footers = text.includes('\n') ? parseCommitMessage(text).footers : [];
+  if (footers.length > 0 && footers.every(f => /^[A-Z]/.test(f.token))) {
+    return `${text}\n${token}: ${value}`;
+  }
+  return `${text}\n\n${token}: ${value}`;
+}
@@ -0,0 +1,315 @@
+// Template engine - {{var}}, filters, {{#if}}/{{#unless}}/{{else}} and {{#each}} blocks
+
+import { TemplateError } from './errors';
+import { truncate } from './utils';
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'var'; expr: Expression; line: number }
+  | { type: 'if'; negate: boolean; expr: Expression; body: Node[]; alternate: Node[]; line: number }
+  | { type: 'each'; expr: Expression; body: Node[]; alternate: Node[]; line: number };
+
+interface Expression {
+  path: string;
+  filters: { name: string; args: string[] }[];
+}
+
+interface Tag {
+  kind: 'open' | 'else' | 'close' | 'var' | 'comment';
+  block?: 'if' | 'unless' | 'each';
+  expr?: string;
+  line: number;
+}
+
+type Filter = (value: unknown, args: string[], line: number) => unknown;
+
+// Built-in filters: {{value | name arg1 arg2}}
+const FILTERS: Record<string, Filter> = {
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  truncate: (value, args, line) => truncate(toText(value), numberArg(args[0], 'truncate', line), args[1] !== undefined ? args[1] : '...'),
+  join: (value, args) => Array.isArray(value) ? value.map(toText).join(args[0] !== undefined ? args[0] : ', ') : toText(value),
+  first: (value, args, line) => Array.isArray(value) ? value.slice(0, args.length ? numberArg(args[0], 'first', line) : 1) : value,
+  length: (value) => Array.isArray(value) || typeof value === 'string' ? value.length : 0,
+  default: (value, args) => isTruthy(value) ? value : (args[0] !== undefined ? args[0] : ''),
+  indent: (value, args, line) => {
+    const pad = ' '.repeat(args.length ? numberArg(args[0], 'indent', line) : 2);
+    return toText(value).split('\n').map(l => (l ? pad + l : l)).join('\n');
+  },
+};
+
+function numberArg(arg: string | undefined, filter: string, line: number): number {
+  const n = arg === undefined ? NaN : parseInt(arg, 10);
+  if (isNaN(n) || n < 0) {
+    throw new TemplateError(`Filter "${filter}" on line ${line} needs a non-negative number argument`);
+  }
+  return n;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+// Stringify a value for output (arrays become one item per line)
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(toText).join('\n');
+  if (typeof value === 'object') {
+    const str = String(value);
+    return str === '[object Object]' ? JSON.stringify(value) : str;
+  }
+  return String(value);
+}
+
+// Split on a separator outside of quotes; quotes are kept
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const ch of input) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts;
+}
+
+// Split filter arguments on whitespace, unquoting quoted strings
+function splitWords(input: string): string[] {
+  return splitOutsideQuotes(input.trim(), ' ')
+    .filter(word => word !== '')
+    .map(word => (/^(['"])[\s\S]*\1$/.test(word) ? word.slice(1, -1) : word));
+}
+
+// Own properties only, so {{constructor}} or a "toString" filter can't reach
+// Object.prototype
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function parseExpression(source: string, line: number): Expression {
+  const [head, ...filterParts] = splitOutsideQuotes(source, '|');
+  const path = (head || '').trim();
+  if (!/^(@?[\w]+|this)(\.[\w]+)*$/.test(path)) {
+    throw new TemplateError(`Invalid expression "{{${source.trim()}}}" on line ${line}`);
+  }
+
+  const filters = filterParts.map((part) => {
+    const [name, ...args] = splitWords(part);
+    if (!name || !hasOwn(FILTERS, name)) {
+      throw new TemplateError(`Unknown filter "${name || ''}" on line ${line}. Available: ${Object.keys(FILTERS).join(', ')}`);
+    }
+    return { name, args };
+  });
+
+  return { path, filters };
+}
+
+function classifyTag(content: string, line: number): Tag {
+  const body = content.trim();
+  if (body.startsWith('!')) return { kind: 'comment', line };
+  if (body === 'else') return { kind: 'else', line };
+
+  const open = body.match(/^#(if|unless|each)(?:\s+([\s\S]+))?$/);
+  if (open) {
+    if (!open[2]) {
+      throw new TemplateError(`{{#${open[1]}}} on line ${line} is missing an expression`);
+    }
+    return { kind: 'open', block: open[1] as Tag['block'], expr: open[2], line };
+  }
+  const close = body.match(/^\/(if|unless|each)$/);
+  if (close) return { kind: 'close', block: close[1] as Tag['block'], line };
+  if (body.startsWith('#') || body.startsWith('/')) {
+    throw new TemplateError(`Unknown block tag "{{${body}}}" on line ${line}`);
+  }
+  return { kind: 'var', expr: body, line };
+}
+
+// Parse template source into a tree of nodes
+export function parseTemplate(source: string): Node[] {
+  const root: Node[] = [];
+  const stack: { tag: Tag; node: Extract<Node, { body: Node[] }>; inElse: boolean }[] = [];
+  const target = (): Node[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.alternate : top.node.body;
+  };
+  const pushText = (text: string) => {
+    if (text) target().push({ type: 'text', value: text });
+  };
+
+  const tagPattern = /\{\{([\s\S]*?)\}\}/g;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(source)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    const line = source.slice(0, start).split('\n').length;
+    const tag = classifyTag(match[1], line);
+    let text = source.slice(cursor, start);
+    cursor = end;
+
+    // Block tags alone on a line don't leave blank lines behind
+    if (tag.kind !== 'var') {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const lineEnd = source.indexOf('\n', end);
+      const before = source.slice(lineStart, start);
+      const after = source.slice(end, lineEnd === -1 ? source.length : lineEnd);
+      if (/^[ \t]*$/.test(before) && /^[ \t\r]*$/.test(after)) {
+        text = text.slice(0, text.length - before.length);
+        cursor = lineEnd === -1 ? source.length : lineEnd + 1;
+        tagPattern.lastIndex = cursor;
+      }
+    }
+    pushText(text);
+
+    switch (tag.kind) {
+      case 'comment':
+        break;
+      case 'var':
+        target().push({ type: 'var', expr: parseExpression(tag.expr || '', line), line });
+        break;
+      case 'open': {
+        const expr = parseExpression(tag.expr || '', line);
+        const node: Extract<Node, { body: Node[] }> = tag.block === 'each'
+          ? { type: 'each', expr, body: [], alternate: [], line }
+          : { type: 'if', negate: tag.block === 'unless', expr, body: [], alternate: [], line };
+        target().push(node);
+        stack.push({ tag, node, inElse: false });
+        break;
+      }
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (!top) {
+          throw new TemplateError(`{{else}} on line ${line} is not inside an {{#if}}, {{#unless}} or {{#each}} block`);
+        }
+        if (top.inElse) {
+          throw new TemplateError(`Duplicate {{else}} on line ${line} for {{#${top.tag.block}}} opened on line ${top.tag.line}`);
+        }
+        top.inElse = true;
+        break;
+      }
+      case 'close': {
+        const top = stack.pop();
+        if (!top) {
+          throw new TemplateError(`Unexpected {{/${tag.block}}} on line ${line} with no open block`);
+        }
+        if (top.tag.block !== tag.block) {
+          throw new TemplateError(`{{/${tag.block}}} on line ${line} does not match {{#${top.tag.block}}} opened on line ${top.tag.line}`);
+        }
+        break;
+      }
+    }
+  }
+  pushText(source.slice(cursor));
+
+  if (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    throw new TemplateError(`Unclosed {{#${top.tag.block} ${(top.tag.expr || '').trim()}}} opened on line ${top.tag.line}`);
+  }
+
+  return root;
+}
+
+// Look a dotted path up through the scope chain (innermost first)
+function resolvePath(path: string, scopes: Record<string, unknown>[]): unknown {
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+
+  if (head === 'this') {
+    value = scopes[0].this;
+  } else {
+    const scope = scopes.find(s => s && typeof s === 'object' && hasOwn(s, head));
+    value = scope ? scope[head] : undefined;
+  }
+
+  for (const key of rest) {
+    if (value === null || value === undefined || !hasOwn(Object(value), key)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function evaluate(expr: Expression, scopes: Record<string, unknown>[], line: number): unknown {
+  let value = resolvePath(expr.path, scopes);
+  for (const filter of expr.filters) {
+    value = FILTERS[filter.name](value, filter.args, line);
+  }
+  return value;
+}
+
+function renderNodes(nodes: Node[], scopes: Record<string, unknown>[]): string {
+  let out = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        out += node.value;
+        break;
+      case 'var':
+        out += toText(evaluate(node.expr, scopes, node.line));
+        break;
+      case 'if': {
+        const truthy = isTruthy(evaluate(node.expr, scopes, node.line));
+        out += renderNodes(truthy !== node.negate ? node.body : node.alternate, scopes);
+        break;
+      }
+      case 'each': {
+        const list = evaluate(node.expr, scopes, node.line);
+        const items = Array.isArray(list) ? list : [];
+        if (items.length === 0) {
+          out += renderNodes(node.alternate, scopes);
+          break;
+        }
+        items.forEach((item, index) => {
+          const itemScope: Record<string, unknown> = {
+            this: item,
+            '@index': index,
+            '@number': index + 1,
+            '@first': index === 0,
+            '@last': index === items.length - 1,
+          };
+          const fields = item && typeof item === 'object' && !Array.isArray(item) ? item as Record<string, unknown> : {};
+          out += renderNodes(node.body, [itemScope, fields, ...scopes]);
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+// Top-level names a template reads, e.g. "files" for {{#each files}}
+export function templateVariables(source: string): Set<string> {
+  const names = new Set<string>();
+  const visit = (nodes: Node[]): void => {
+    for (const node of nodes) {
+      if (node.type === 'text') continue;
+      names.add(node.expr.path.split('.')[0]);
+      if (node.type !== 'var') {
+        visit(node.body);
+        visit(node.alternate);
+      }
+    }
+  };
+  visit(parseTemplate(source));
+  return names;
+}
+
+// Render a template string with the given data
+export function render(source: string, data: object): string {
+  return renderNodes(parseTemplate(source), [data as Record<string, unknown>]);
+}
+
+export const FILTER_NAMES = Object.keys(FILTERS);
@@ -42,3 +42,13 @@ export class ValidationError extends GCMError {
     this.field = field;
   }
 }
+
+// Template errors
+export class TemplateError extends GCMError {
+  public readonly template?: string;
+
+  constructor(message: string, template?: string) {
+    super(message, 'TEMPLATE_ERROR');
+    this.template = template;
+  }
+}
@@ -0,0 +1,255 @@
+// Generation pipeline - settings, the changes to describe and the messages
+// for them, shared by the CLI and the library
+
+import { resolveConfig, getEffectiveLintConfig, hasCredentials, ResolvedConfig } from './config';
+import { isInsideRepo, getStatus, getDiff, getDiffSince, getDiffBase, getChangesSince, getHead } from './git';
+import { parseStatus, summarizeChanges, getChangedFiles, buildSimpleMessage, generateMessages, buildMessageResult, hasChanges, Generation, MessageOptions, MessageResult, StatusSummary } from './message';
+import { APIError, ConfigError, GCMError, GitError, TemplateError, ValidationError } from './errors';
+import { getIgnorePatterns, partitionIgnored } from './ignore';
+import { templateExists, collectPromptContext, PromptContext } from './templates';
+import { buildTrailers, appendTrailers } from './trailers';
+import { parsePatch, summarizePatch, getPatchNumstat, getPatchDiff } from './patch';
+import { getDiffTokenBudget } from './budget';
+import { quietStep, Step } from './progress';
+import { GitRunner } from './utils';
+import { Provider, ProviderName } from './providers';
+import { MessageCache } from './cache';
+import { Log, silentLog } from './logger';
+import CONSTANTS from './constants';
+
+export interface GenerateOptions {
+  cwd?: string; // repository to describe (default: the process working directory)
+  stagedOnly?: boolean;
+  amend?: boolean; // describe the last commit together with staged changes
+  patch?: string; // describe this unified diff instead of the repository
+  simple?: boolean; // no AI
+  provider?: ProviderName;
+  model?: string;
+  baseUrl?: string;
+  template?: string;
+  candidates?: number; // alternatives to generate, 1 to MAX_CANDIDATES
+  noCache?: boolean;
+  signoff?: boolean;
+  coAuthors?: string[]; // "Name <email>" or saved aliases
+  fallback?: boolean; // use a simple message when AI fails (default); false throws instead
+  // Stand-ins for the built-in implementations
+  git?: GitRunner;
+  client?: Provider;
+  cache?: MessageCache;
+  logger?: Log;
+}
+
+// The changes to describe, and why there is nothing to describe (if so)
+export interface Changes {
+  summary: StatusSummary;
+  empty: string | null;
+}
+
+// Resolve config files, environment and `options` into message options
+export function resolveMessageOptions(options: GenerateOptions): { resolved: ResolvedConfig; opts: MessageOptions } {
+  const cwd = options.cwd || process.cwd();
+  // Options are the top config layer, as CLI flags are
+  const resolved = resolveConfig({
+    provider: options.provider,
+    model: options.model,
+    baseUrl: options.baseUrl,
+    template: options.template
+  }, cwd);
+  const { settings } = resolved;
+  const opts: MessageOptions = {
+    stagedOnly: options.stagedOnly || false,
+    simple: options.simple || false,
+    provider: settings.provider,
+    model: settings.model,
+    baseUrl: settings.baseUrl || undefined,
+    template: settings.template,
+    style: settings.style,
+    diffTokenBudget: settings.diffTokenBudget || undefined,
+    ignore: getIgnorePatterns(settings.ignore, cwd),
+    scopeMap: settings.scopeMap,
+    scopePolicy: settings.scopePolicy,
+    redact: settings.redact,
+    ticket: settings.ticket,
+    noCache: options.noCache || false,
+    lint: getEffectiveLintConfig(settings),
+    git: { cwd: cwd, run: options.git },
+    client: options.client,
+    cache: options.cache
+  };
+
+  if (opts.template && !templateExists(opts.template)) {
+    throw new TemplateError(`Template "${opts.template}" not found (from ${resolved.sources.template} config).`, opts.template);
+  }
+  return { resolved, opts };
+}
+
+// Summarize the patch, the last commit (when amending) or the working tree,
+// and set the options that follow from it
+export async function collectChanges(
+  opts: MessageOptions,
+  options: Pick<GenerateOptions, 'patch' | 'amend'>,
+  step: Step = quietStep
+): Promise<Changes> {
+  let summary: StatusSummary;
+  if (options.patch !== undefined) {
+    if (options.amend) {
+      throw new ValidationError('A patch cannot be amended; there is no commit to change.', 'amend');
+    }
+    // A patch is described on its own, no repository needed
+    opts.patch = parsePatch(options.patch);
+    opts.stagedOnly = true;
+    summary = summarizePatch(opts.patch, opts.ignore);
+  } else {
+    if (!isInsideRepo(opts.git)) {
+      throw new GitError(`Not a git repository: ${(opts.git && opts.git.cwd) || process.cwd()}`);
+    }
+    const statusOutput = await step('Analyzing git status...', async () => {
+      return Promise.resolve(getStatus(opts.git));
+    });
+    summary = parseStatus(statusOutput, opts.ignore);
+  }
+
+  // Amending describes HEAD against its parent plus whatever is staged now
+  if (options.amend) {
+    if (!getHead(opts.git)) {
+      throw new ValidationError('Nothing to amend. The branch has no commits yet.', 'amend');
+    }
+    opts.stagedOnly = true;
+    opts.diffBase = getDiffBase('HEAD', opts.git);
+    summary = summarizeChanges(getChangesSince(opts.diffBase, undefined, opts.git), summary.branch, opts.ignore);
+  }
+
+  if (hasChanges(summary, opts.stagedOnly || false)) {
+    return { summary, empty: null };
+  }
+  const empty = options.amend
+    ? 'The last commit has no changes to describe.'
+    : opts.patch
+      ? 'The patch only changes ignored files.'
+      : opts.stagedOnly
+        ? 'No staged changes to commit.'
+        : 'No changes detected. Working tree is clean.';
+  return { summary, empty };
+}
+
+// Configured trailers, --signoff and --co-author, added the way git would
+function withTrailers(messages: string[], opts: MessageOptions): string[] {
+  return messages.map(message => appendTrailers(message, opts.trailers || [], opts.git));
+}
+
+// Generate one or more messages with AI from the diff of the summarized
+// changes; errors are thrown
+export async function generateFromChanges(
+  summary: StatusSummary,
+  opts: MessageOptions,
+  logger: Log,
+  step: Step = quietStep,
+  extra: PromptContext = {},
+  count: number = 1
+): Promise<Generation> {
+  // A patch carries its own line counts and has no commit history around it
+  const context: PromptContext = {
+    ...(opts.patch ? { numstat: getPatchNumstat(opts.patch) } : collectPromptContext(opts.stagedOnly || false, opts.diffBase, opts.diffTarget, opts.git)),
+    ...extra
+  };
+
+  const files = await step('Collecting changed files...', async () => {
+    // The full change list also has the ignored paths the summary only counts
+    return Promise.resolve(partitionIgnored(getChangedFiles(summary, opts.stagedOnly || false, context.changes), opts.ignore).kept);
+  });
+
+  const diff = await step(opts.patch ? 'Reading the patch...' : 'Collecting git diffs...', async () => {
+    const budget = opts.diffTokenBudget || getDiffTokenBudget(opts.provider, opts.model);
+    if (opts.patch) {
+      return Promise.resolve(getPatchDiff(opts.patch, files, budget, opts.ignore));
+    }
+    return Promise.resolve(opts.diffBase
+      ? getDiffSince(opts.diffBase, files, budget, opts.ignore, opts.diffTarget, opts.git)
+      : getDiff(files, opts.stagedOnly || false, budget, opts.ignore, opts.git));
+  });
+
+  const label = count > 1 ? `Generating ${count} commit messages with AI...` : 'Generating commit message with AI...';
+  return await step(label, async () => {
+    const generation = await generateMessages(summary, diff, files, opts, count, logger, context);
+    return { ...generation, messages: withTrailers(generation.messages, opts) };
+  });
+}
+
+// Generate one or more messages with AI, falling back to the simple format
+export async function createMessages(
+  summary: StatusSummary,
+  opts: MessageOptions,
+  logger: Log,
+  useAI: boolean,
+  step: Step = quietStep,
+  extra: PromptContext = {},
+  count: number = 1
+): Promise<Generation> {
+  const simple = (warnings: string[]): Generation => ({
+    messages: withTrailers([buildSimpleMessage(summary, opts)], opts),
+    source: 'simple',
+    provider: null,
+    model: null,
+    warnings: warnings
+  });
+  if (opts.simple || !useAI) {
+    return step('Generating commit message...', async () => {
+      return Promise.resolve(simple([]));
+    });
+  }
+
+  try {
+    return await generateFromChanges(summary, opts, logger, step, extra, count);
+  } catch (error) {
+    const err = error as Error;
+    logger.error(`Error generating AI message: ${err.message}`);
+    if (opts.verbose) {
+      logger.info('Falling back to simple message format...');
+    }
+    return step('Generating simple commit message...', async () => {
+      return Promise.resolve(simple([`AI generation failed, used a simple message: ${err.message}`]));
+    });
+  }
+}
+
+// Describe the changes in a repository (or a patch) and return the message
+// with its parts, alternatives and where it came from, as "gcm --json" prints
+export async function generateCommitMessage(options: GenerateOptions = {}): Promise<MessageResult> {
+  const count = options.candidates === undefined ? 1 : options.candidates;
+  if (!Number.isInteger(count) || count < 1 || count > CONSTANTS.MAX_CANDIDATES) {
+    throw new ValidationError(`candidates must be a number from 1 to ${CONSTANTS.MAX_CANDIDATES}`, 'candidates');
+  }
+  const logger = options.logger || silentLog;
+  const { resolved, opts } = resolveMessageOptions(options);
+  const { settings } = resolved;
+
+  if (!opts.simple && !opts.client && !hasCredentials(settings.provider, settings.baseUrl, opts.git && opts.git.cwd)) {
+    throw new ConfigError(
+      `${CONSTANTS.PROVIDER_LABELS[settings.provider]} API key not configured. Run "gcm config set", set ${CONSTANTS.API_KEY_ENV_VARS[settings.provider]} or use simple messages.`
+    );
+  }
+
+  const { summary, empty } = await collectChanges(opts, options);
+  if (empty) {
+    return buildMessageResult(null, summary, opts, [empty]);
+  }
+
+  opts.trailers = buildTrailers({
+    trailers: settings.trailers,
+    coAuthors: options.coAuthors,
+    signoff: options.signoff || settings.signoff
+  }, settings.coAuthors, opts.git);
+
+  if (options.fallback !== false || opts.simple) {
+    return buildMessageResult(await createMessages(summary, opts, logger, true, quietStep, {}, count), summary, opts);
+  }
+  try {
+    return buildMessageResult(await generateFromChanges(summary, opts, logger, quietStep, {}, count), summary, opts);
+  } catch (error) {
+    // Injected providers may throw anything; callers only see GCMErrors
+    if (error instanceof GCMError) {
+      throw error;
+    }
+    throw new APIError(`Error generating AI message: ${(error as Error).message}`, 'GENERATION_FAILED', error as Error);
+  }
+}
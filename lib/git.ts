@@ -1,40 +1,63 @@
 // Git operations
 
-import { spawnSync } from 'child_process';
-import { runGit, isInsideRepo as checkRepo } from './utils';
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGitIn, isInsideRepo as checkRepo, isBinaryBuffer, describeFileType, formatBytes, GitContext } from './utils';
 import { GitError } from './errors';
+import { budgetDiff, DiffSection } from './budget';
+import { partitionIgnored } from './ignore';
 import CONSTANTS from './constants';
 
-export function isInsideRepo(): boolean {
-  return checkRepo();
+export function isInsideRepo(git: GitContext = {}): boolean {
+  return checkRepo(git);
 }
 
-export function getStatus(): string {
-  const result = runGit(['status', '--porcelain=v2', '-b']);
+export function getStatus(git: GitContext = {}): string {
+  const result = runGitIn(git, ['status', '--porcelain=v2', '-b']);
   return result.stdout;
 }
 
-export function getDiff(files: string[], stagedOnly: boolean = false): string {
-  if (files.length === 0) return '';
-  
-  const filesToDiff = files.slice(0, CONSTANTS.MAX_FILES_FOR_DIFF);
-  const remainingCount = files.length - filesToDiff.length;
+// The same context, run from the top of the repository: status and diff print
+// paths relative to it, whatever directory gcm was started in
+function atRoot(git: GitContext): GitContext {
+  const root = runGitIn(git, ['rev-parse', '--show-toplevel']).stdout.trim();
+  return root ? { ...git, cwd: root } : git;
+}
+
+// Diff for the given files (relative to the repository root), fitted into an
+// approximate token budget. Paths matching `ignore` are left out, including
+// files inside untracked directories.
+export function getDiff(
+  files: string[],
+  stagedOnly: boolean = false,
+  tokenBudget: number = CONSTANTS.DIFF_TOKEN_BUDGET,
+  ignore: string[] = [],
+  git: GitContext = {}
+): string {
+  const { kept } = partitionIgnored(files, ignore);
+  if (kept.length === 0) return '';
   
-  let diffOutput = '';
+  const sections: DiffSection[] = [];
   
   try {
+    const top = atRoot(git);
+    // Every file goes to the budget, which ranks them and names the ones it drops
     if (stagedOnly) {
-      const result = runGit(['diff', '--cached', '--', ...filesToDiff]);
-      diffOutput = result.stdout || '';
+      const diff = inBatches(kept, batch => runGitIn(top, ['diff', '--cached', '--', ...batch]).stdout);
+      sections.push({ title: null, diff: diff });
     } else {
-      const staged = runGit(['diff', '--cached', '--', ...filesToDiff]);
-      const unstaged = runGit(['diff', '--', ...filesToDiff]);
+      const staged = inBatches(kept, batch => runGitIn(top, ['diff', '--cached', '--', ...batch]).stdout);
+      const unstaged = inBatches(kept, batch => runGitIn(top, ['diff', '--', ...batch]).stdout);
+      const untracked = getUntrackedDiff(kept, ignore, top);
       
-      if (staged.stdout) {
-        diffOutput += '=== STAGED CHANGES ===\n' + staged.stdout + '\n\n';
+      if (staged) {
+        sections.push({ title: '=== STAGED CHANGES ===', diff: staged });
       }
-      if (unstaged.stdout) {
-        diffOutput += '=== UNSTAGED CHANGES ===\n' + unstaged.stdout;
+      if (unstaged) {
+        sections.push({ title: '=== UNSTAGED CHANGES ===', diff: unstaged });
+      }
+      if (untracked) {
+        sections.push({ title: '=== NEW FILES (untracked) ===', diff: untracked });
       }
     }
   } catch (error) {
@@ -42,30 +65,470 @@ export function getDiff(files: string[], stagedOnly: boolean = false): string {
     return '';
   }
   
-  // Cap diff size
-  if (diffOutput.length > CONSTANTS.MAX_DIFF_SIZE) {
-    diffOutput = diffOutput.substring(0, CONSTANTS.MAX_DIFF_SIZE) + '\n\n[... diff truncated ...]';
+  return budgetDiff(sections, tokenBudget);
+}
+
+// Run a git command over `files` a batch at a time, keeping command lines short
+function inBatches(files: string[], run: (batch: string[]) => string): string {
+  const output: string[] = [];
+  for (let i = 0; i < files.length; i += CONSTANTS.MAX_FILES_FOR_DIFF) {
+    output.push(run(files.slice(i, i + CONSTANTS.MAX_FILES_FOR_DIFF)));
   }
-  
-  if (remainingCount > 0) {
-    diffOutput += `\n\n[${remainingCount} more file(s) changed but diff not shown]`;
+  return output.join('');
+}
+
+// What HEAD is compared against when amending: its first parent, or the
+// empty tree for a root commit
+export function getDiffBase(commitish: string = 'HEAD', git: GitContext = {}): string {
+  try {
+    return runGitIn(git, ['rev-parse', '--verify', '-q', `${commitish}^`]).stdout.trim();
+  } catch (error) {
+    return runGitIn(git, ['hash-object', '-t', 'tree', '/dev/null']).stdout.trim();
   }
-  
-  return diffOutput;
 }
 
-export function stageAll(): boolean {
-  const result = spawnSync('git', ['add', '.'], { stdio: 'inherit' });
-  if (result.status !== 0) {
-    throw new GitError('Failed to stage changes');
+// Parse `git diff --name-status -z` output (renames and copies carry both paths)
+export function parseNameStatus(output: string): WorkingChange[] {
+  const changes: WorkingChange[] = [];
+  const fields = output.split('\0');
+  let i = 0;
+
+  while (i < fields.length) {
+    const code = fields[i++];
+    if (!code) continue;
+    const x = code[0];
+    let oldPath: string | null = null;
+    if (x === 'R' || x === 'C') {
+      oldPath = fields[i++] || null;
+    }
+    const filePath = fields[i++];
+    if (!filePath) continue;
+
+    let status: ChangeStatus;
+    if (x === 'U') {
+      status = 'conflict';
+    } else if (x === 'R' || x === 'C') {
+      status = 'renamed';
+    } else if (x === 'A') {
+      status = 'added';
+    } else if (x === 'D') {
+      status = 'deleted';
+    } else {
+      status = 'modified';
+    }
+    changes.push({ path: filePath, oldPath: oldPath, status: status, staged: true });
+  }
+  return changes;
+}
+
+// `git diff` arguments from `base` to a commit, or to the index without one
+function rangeArgs(base: string, target?: string): string[] {
+  return target ? [base, target] : ['--cached', base];
+}
+
+// Changes from `base` to `target` (default: the index). With base = HEAD's
+// parent and no target, the commit an amend would produce.
+export function getChangesSince(base: string, target?: string, git: GitContext = {}): WorkingChange[] {
+  const result = runGitIn(git, ['diff', '--name-status', '-z', '-M', ...rangeArgs(base, target)]);
+  return parseNameStatus(result.stdout);
+}
+
+// Every changed path with its status, not just the status samples: staged
+// changes, plus unstaged and untracked ones unless `stagedOnly`, or from
+// `base` to `target` (default: the index) when amending or rewording
+export function getChangedPaths(stagedOnly: boolean = false, base?: string, target?: string, git: GitContext = {}): WorkingChange[] {
+  if (base) {
+    return getChangesSince(base, target, git);
+  }
+  const staged = runGitIn(git, ['diff', '--cached', '--name-status', '-z', '-M']);
+  const changes = parseNameStatus(staged.stdout);
+  if (stagedOnly) {
+    return changes;
+  }
+
+  const unstaged = runGitIn(git, ['diff', '--name-status', '-z']);
+  const untracked = runGitIn(git, ['ls-files', '--others', '--exclude-standard', '--full-name', '-z', ':/']);
+  const seen = new Set(changes.map(c => c.path));
+  const rest: WorkingChange[] = [
+    ...parseNameStatus(unstaged.stdout).map(c => ({ ...c, staged: false })),
+    ...untracked.stdout.split('\0').filter(Boolean).map(p => ({ path: p, oldPath: null, status: 'untracked' as ChangeStatus, staged: false }))
+  ];
+  for (const change of rest) {
+    if (!seen.has(change.path)) {
+      seen.add(change.path);
+      changes.push(change);
+    }
+  }
+  return changes;
+}
+
+// Diff from `base` to `target` (default: the index) for these files (relative
+// to the repository root), fitted into the token budget
+export function getDiffSince(
+  base: string,
+  files: string[],
+  tokenBudget: number = CONSTANTS.DIFF_TOKEN_BUDGET,
+  ignore: string[] = [],
+  target?: string,
+  git: GitContext = {}
+): string {
+  const { kept } = partitionIgnored(files, ignore);
+  if (kept.length === 0) return '';
+
+  const top = atRoot(git);
+  const diff = inBatches(kept, batch => runGitIn(top, ['diff', '-M', ...rangeArgs(base, target), '--', ...batch]).stdout);
+  return budgetDiff([{ title: null, diff: diff }], tokenBudget);
+}
+
+// Every change against HEAD, staged and unstaged together, with these
+// untracked files as new file diffs
+export function getWorkingDiff(untracked: string[], git: GitContext = {}): string {
+  const tracked = runGitIn(git, ['diff', '-M', getHead(git) ? 'HEAD' : '--cached']);
+  return tracked.stdout + getUntrackedDiff(untracked, [], git);
+}
+
+// Which of these paths (relative to the context's cwd) are untracked and not ignored
+export function getUntrackedFiles(files: string[], git: GitContext = {}): string[] {
+  if (files.length === 0) return [];
+  const output = inBatches(files, batch => runGitIn(git, ['ls-files', '--others', '--exclude-standard', '-z', '--', ...batch]).stdout);
+  return output.split('\0').filter(Boolean);
+}
+
+// "new file" diff for an untracked file (relative to the context's cwd);
+// binary and very large files are described by size and type instead
+export function diffNewFile(file: string, git: GitContext = {}): string {
+  const fullPath = path.resolve(git.cwd || '', file);
+  const stat = fs.lstatSync(fullPath);
+  if (!stat.isFile()) {
+    return '';
+  }
+
+  const header = `diff --git a/${file} b/${file}\nnew file mode ${(stat.mode & 0o111) ? '100755' : '100644'}\n`;
+  const fd = fs.openSync(fullPath, 'r');
+  const head = Buffer.alloc(Math.min(stat.size, 8000));
+  try {
+    fs.readSync(fd, head, 0, head.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (isBinaryBuffer(head)) {
+    return `${header}Binary files /dev/null and b/${file} differ (${formatBytes(stat.size)}, ${describeFileType(head, file)})\n`;
+  }
+  if (stat.size > CONSTANTS.MAX_UNTRACKED_FILE_SIZE) {
+    return `${header}Large text file not shown (${formatBytes(stat.size)})\n`;
+  }
+
+  // Written out here: `git diff --no-index` exits with 1 whenever the files
+  // differ, which the git runner reports as a failure
+  const content = fs.readFileSync(fullPath, 'utf8');
+  if (content === '') {
+    return header;
+  }
+  const lines = content.split('\n');
+  const missingNewline = lines[lines.length - 1] !== '';
+  if (!missingNewline) lines.pop();
+  const range = lines.length === 1 ? '1' : `1,${lines.length}`;
+  return `${header}--- /dev/null\n+++ b/${file}\n@@ -0,0 +${range} @@\n` +
+    lines.map(line => `+${line}\n`).join('') +
+    (missingNewline ? '\\ No newline at end of file\n' : '');
+}
+
+// Synthetic diffs for the untracked files among these root-relative paths
+export function getUntrackedDiff(files: string[], ignore: string[] = [], git: GitContext = {}): string {
+  const top = atRoot(git);
+  return partitionIgnored(getUntrackedFiles(files, top), ignore).kept
+    .map((file) => {
+      try {
+        return diffNewFile(file, top);
+      } catch (error) {
+        // Unreadable file - it still shows up in the file list
+        return '';
+      }
+    })
+    .filter(Boolean)
+    .join('');
+}
+
+export interface NumstatEntry {
+  path: string;
+  oldPath: string | null;
+  additions: number | null; // null for binary files
+  deletions: number | null;
+}
+
+// Parse `git diff --numstat -z` output
+export function parseNumstat(output: string): NumstatEntry[] {
+  const entries: NumstatEntry[] = [];
+  const fields = output.split('\0');
+  let i = 0;
+
+  while (i < fields.length) {
+    const record = fields[i++];
+    if (!record) continue;
+    const m = record.match(/^(-|\d+)\t(-|\d+)\t([\s\S]*)$/);
+    if (!m) continue;
+
+    let filePath = m[3];
+    let oldPath: string | null = null;
+    // Renames and copies leave the path empty and put old/new in the next fields
+    if (filePath === '') {
+      oldPath = fields[i++] || null;
+      filePath = fields[i++] || '';
+    }
+
+    entries.push({
+      path: filePath,
+      oldPath: oldPath,
+      additions: m[1] === '-' ? null : parseInt(m[1], 10),
+      deletions: m[2] === '-' ? null : parseInt(m[2], 10)
+    });
+  }
+  return entries;
+}
+
+// Per-file line counts for staged (and optionally unstaged) changes, or from
+// `base` to `target` (default: the index) when amending or rewording
+export function getNumstat(stagedOnly: boolean = false, base?: string, target?: string, git: GitContext = {}): NumstatEntry[] {
+  const byPath = new Map<string, NumstatEntry>();
+  const sources = base ? [['-M', ...rangeArgs(base, target)]] : stagedOnly ? [['--cached']] : [['--cached'], []];
+
+  for (const extra of sources) {
+    const result = runGitIn(git, ['diff', '--numstat', '-z', ...extra]);
+    for (const entry of parseNumstat(result.stdout)) {
+      const existing = byPath.get(entry.path);
+      if (!existing) {
+        byPath.set(entry.path, entry);
+        continue;
+      }
+      existing.oldPath = existing.oldPath || entry.oldPath;
+      existing.additions = existing.additions === null || entry.additions === null ? null : existing.additions + entry.additions;
+      existing.deletions = existing.deletions === null || entry.deletions === null ? null : existing.deletions + entry.deletions;
+    }
+  }
+  return Array.from(byPath.values());
+}
+
+// Subjects of the most recent commits up to `rev` (empty for a new repository)
+export function getRecentCommits(count: number = CONSTANTS.RECENT_COMMITS_COUNT, rev: string = 'HEAD', git: GitContext = {}): string[] {
+  try {
+    const result = runGitIn(git, ['log', `-n${count}`, '--format=%s', rev, '--']);
+    return result.stdout.split('\n').map(line => line.trim()).filter(Boolean);
+  } catch (error) {
+    return [];
+  }
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+}
+
+// Full messages of the commits in a range (newest first)
+export function getCommitMessages(range: string, git: GitContext = {}): CommitInfo[] {
+  const result = runGitIn(git, ['log', '--format=%H%x00%B%x1e', range]);
+  return result.stdout
+    .split('\x1e')
+    .map(record => record.replace(/^\n/, ''))
+    .filter(record => record.includes('\0'))
+    .map((record) => {
+      const [sha, message] = record.split('\0');
+      return { sha: sha.trim(), message: message.trim() };
+    });
+}
+
+// Nearest tag reachable from `rev`, or null if there is none
+export function getLatestTag(rev: string = 'HEAD', git: GitContext = {}): string | null {
+  try {
+    return runGitIn(git, ['describe', '--tags', '--abbrev=0', rev]).stdout.trim() || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Tags that point exactly at `rev`
+export function getTagsAt(rev: string = 'HEAD', git: GitContext = {}): string[] {
+  const result = runGitIn(git, ['tag', '--points-at', rev]);
+  return result.stdout.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+// Tags reachable from `rev`
+export function getTags(rev: string = 'HEAD', git: GitContext = {}): string[] {
+  const result = runGitIn(git, ['tag', '--merged', rev]);
+  return result.stdout.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+export function tagExists(name: string, git: GitContext = {}): boolean {
+  try {
+    runGitIn(git, ['rev-parse', '--verify', '-q', `refs/tags/${name}`]);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Annotated tag on HEAD
+export function createTag(name: string, message: string, git: GitContext = {}): void {
+  runGitIn(git, ['tag', '-a', name, '-m', message]);
+}
+
+// Committer date of a commit as YYYY-MM-DD
+export function getCommitDate(rev: string = 'HEAD', git: GitContext = {}): string {
+  return runGitIn(git, ['log', '-1', '--format=%cI', rev, '--']).stdout.trim().slice(0, 10);
+}
+
+// Comment character of the commit message buffer (core.commentChar). With
+// "auto" git picks one the message doesn't use, which is "#" for an empty one.
+export function getCommentChar(git: GitContext = {}): string {
+  try {
+    const value = runGitIn(git, ['config', '--get', 'core.commentChar']).stdout.trim();
+    return value && value !== 'auto' ? value : '#';
+  } catch (error) {
+    return '#';
+  }
+}
+
+// Content hashes of working tree files, relative to the repository root
+// (missing files are skipped)
+export function hashFiles(files: string[], git: GitContext = {}): string[] {
+  if (files.length === 0) return [];
+  const top = atRoot(git);
+  const existing = files.filter(f => fs.existsSync(path.resolve(top.cwd || '', f)));
+  if (existing.length === 0) return [];
+  const result = runGitIn(top, ['hash-object', '--', ...existing]);
+  return result.stdout.split('\n').filter(Boolean);
+}
+
+export type ChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'untracked' | 'conflict';
+
+export interface WorkingChange {
+  path: string;
+  oldPath: string | null;
+  status: ChangeStatus;
+  staged: boolean;
+}
+
+// Parse `git status --porcelain=v1 -z` output (renames put the old path in the next field)
+export function parseWorkingChanges(output: string): WorkingChange[] {
+  const changes: WorkingChange[] = [];
+  const fields = output.split('\0');
+  let i = 0;
+
+  while (i < fields.length) {
+    const record = fields[i++];
+    if (!record || record.length < 4) continue;
+    const x = record[0];
+    const y = record[1];
+    const filePath = record.slice(3);
+
+    if (x === '?' && y === '?') {
+      changes.push({ path: filePath, oldPath: null, status: 'untracked', staged: false });
+      continue;
+    }
+    if (x === '!') continue;
+
+    let oldPath: string | null = null;
+    if (x === 'R' || x === 'C') {
+      oldPath = fields[i++] || null;
+    }
+
+    let status: ChangeStatus;
+    if (x === 'U' || y === 'U' || (x === 'A' && y === 'A') || (x === 'D' && y === 'D')) {
+      status = 'conflict';
+    } else if (x === 'R' || x === 'C') {
+      status = 'renamed';
+    } else if (x === 'A') {
+      status = 'added';
+    } else if (x === 'D' || y === 'D') {
+      status = 'deleted';
+    } else {
+      status = 'modified';
+    }
+    changes.push({ path: filePath, oldPath: oldPath, status: status, staged: x !== ' ' });
+  }
+  return changes;
+}
+
+// Every changed path in the working tree and index, untracked files included
+export function getWorkingChanges(git: GitContext = {}): WorkingChange[] {
+  const result = runGitIn(git, ['status', '--porcelain=v1', '-z', '--untracked-files=all']);
+  return parseWorkingChanges(result.stdout);
+}
+
+// Current commit, or null on an unborn branch
+export function getHead(git: GitContext = {}): string | null {
+  try {
+    return runGitIn(git, ['rev-parse', '--verify', '-q', 'HEAD']).stdout.trim() || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Snapshot the index as a tree object (for restoring it later)
+export function writeIndexTree(git: GitContext = {}): string {
+  return runGitIn(git, ['write-tree']).stdout.trim();
+}
+
+// Replace the index with a tree (the working tree is not touched)
+export function readIndexTree(tree: string, git: GitContext = {}): void {
+  runGitIn(git, ['read-tree', tree]);
+}
+
+// Unstage everything, keeping working tree changes
+export function resetIndex(git: GitContext = {}): void {
+  if (getHead(git)) {
+    runGitIn(git, ['reset', '-q']);
+  } else {
+    runGitIn(git, ['read-tree', '--empty']);
+  }
+}
+
+// Move the branch back to a commit, keeping the index and working tree
+export function resetSoft(head: string | null, git: GitContext = {}): void {
+  if (head) {
+    runGitIn(git, ['reset', '-q', '--soft', head]);
+  } else {
+    // Back to an unborn branch
+    runGitIn(git, ['update-ref', '-d', 'HEAD']);
+  }
+}
+
+// Stage part of a file: apply a patch to the index, leaving the working tree
+// alone. From a subdirectory git apply would prefix the paths with it.
+export function applyToIndex(patch: string, git: GitContext = {}): void {
+  runGitIn(atRoot(git), ['apply', '--cached', '--whitespace=nowarn', '-'], { input: patch.endsWith('\n') ? patch : `${patch}\n` });
+}
+
+// Stage exactly these paths (relative to the repository root), including deletions
+export function stageFiles(files: string[], git: GitContext = {}): void {
+  if (files.length === 0) return;
+  runGitIn(atRoot(git), ['add', '-A', '--', ...files]);
+}
+
+export function stageAll(git: GitContext = {}): boolean {
+  try {
+    runGitIn(git, ['add', '.'], { stdio: 'inherit' });
+  } catch (error) {
+    throw new GitError('Failed to stage changes', error as Error);
   }
   return true;
 }
 
-export function commit(message: string): boolean {
-  const result = spawnSync('git', ['commit', '-m', message], { stdio: 'inherit' });
-  if (result.status !== 0) {
-    throw new GitError('Commit failed');
+export function commit(message: string, git: GitContext = {}): boolean {
+  try {
+    runGitIn(git, ['commit', '-m', message], { stdio: 'inherit' });
+  } catch (error) {
+    throw new GitError('Commit failed', error as Error);
+  }
+  return true;
+}
+
+// Replace the last commit with the index and a new message
+export function amendCommit(message: string, git: GitContext = {}): boolean {
+  try {
+    runGitIn(git, ['commit', '--amend', '-m', message], { stdio: 'inherit' });
+  } catch (error) {
+    throw new GitError('Amend failed', error as Error);
   }
   return true;
 }
@@ -0,0 +1,173 @@
+// Git hook integration (prepare-commit-msg generates, commit-msg lints)
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from './utils';
+import { GitError } from './errors';
+import { stripComments } from './conventional';
+import { getCommentChar } from './git';
+import CONSTANTS from './constants';
+
+export type HookName = typeof CONSTANTS.HOOK_NAMES[number];
+
+export interface HookStatus {
+  hook: HookName;
+  path: string;
+  installed: boolean;
+  foreign: boolean;
+  chained: string | null;
+}
+
+export interface HookInstallResult {
+  path: string;
+  chained: string | null;
+  updated: boolean;
+}
+
+// Marker line identifying hooks written by gcm
+const HOOK_MARKER = '# gcm-managed-hook';
+
+export function isHookName(name: unknown): name is HookName {
+  return typeof name === 'string' && (CONSTANTS.HOOK_NAMES as readonly string[]).includes(name);
+}
+
+// Resolve the hooks directory (respects core.hooksPath and worktrees)
+export function getHooksDir(): string {
+  const result = runGit(['rev-parse', '--git-path', 'hooks']);
+  return path.resolve(result.stdout.trim());
+}
+
+function getHookPath(hook: HookName): string {
+  return path.join(getHooksDir(), hook);
+}
+
+function getChainedPath(hook: HookName): string {
+  return `${getHookPath(hook)}${CONSTANTS.HOOK_CHAINED_SUFFIX}`;
+}
+
+function isManagedHook(hookPath: string): boolean {
+  try {
+    return fs.readFileSync(hookPath, 'utf8').includes(HOOK_MARKER);
+  } catch (error) {
+    return false;
+  }
+}
+
+// Shell script that runs any pre-existing hook first, then gcm
+export function buildHookScript(hook: HookName): string {
+  const chainedName = `${hook}${CONSTANTS.HOOK_CHAINED_SUFFIX}`;
+  // Generation must never block a commit; a failed lint must
+  const command = hook === 'commit-msg'
+    ? '  gcm lint "$1" || exit $?'
+    : `  gcm hook run ${hook} "$@" </dev/null || true`;
+  return [
+    '#!/bin/sh',
+    HOOK_MARKER,
+    `# Installed by gcm. Remove with: gcm hook uninstall --hook ${hook}`,
+    '',
+    `CHAINED="$(dirname "$0")/${chainedName}"`,
+    'if [ -x "$CHAINED" ]; then',
+    '  "$CHAINED" "$@" || exit $?',
+    'fi',
+    '',
+    'if command -v gcm >/dev/null 2>&1; then',
+    command,
+    'fi',
+    'exit 0',
+    ''
+  ].join('\n');
+}
+
+// Install the gcm hook, moving any existing hook aside so it keeps running
+export function installHook(hook: HookName): HookInstallResult {
+  const hookPath = getHookPath(hook);
+  const chainedPath = getChainedPath(hook);
+  const updated = fs.existsSync(hookPath) && isManagedHook(hookPath);
+
+  try {
+    fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+
+    if (fs.existsSync(hookPath) && !updated) {
+      if (fs.existsSync(chainedPath)) {
+        throw new GitError(`Cannot install ${hook} hook: both ${hookPath} and ${chainedPath} already exist`);
+      }
+      fs.renameSync(hookPath, chainedPath);
+    }
+
+    fs.writeFileSync(hookPath, buildHookScript(hook), { mode: 0o755 });
+    fs.chmodSync(hookPath, 0o755);
+  } catch (error) {
+    if (error instanceof GitError) {
+      throw error;
+    }
+    const err = error as Error;
+    throw new GitError(`Failed to install ${hook} hook: ${err.message}`, err);
+  }
+
+  return {
+    path: hookPath,
+    chained: fs.existsSync(chainedPath) ? chainedPath : null,
+    updated: updated
+  };
+}
+
+// Remove the gcm hook and restore the hook it was chained to
+export function uninstallHook(hook: HookName): boolean {
+  const hookPath = getHookPath(hook);
+  const chainedPath = getChainedPath(hook);
+
+  if (!fs.existsSync(hookPath)) {
+    return false;
+  }
+  if (!isManagedHook(hookPath)) {
+    throw new GitError(`${hookPath} was not installed by gcm, leaving it in place`);
+  }
+
+  try {
+    fs.unlinkSync(hookPath);
+    if (fs.existsSync(chainedPath)) {
+      fs.renameSync(chainedPath, hookPath);
+    }
+  } catch (error) {
+    const err = error as Error;
+    throw new GitError(`Failed to uninstall ${hook} hook: ${err.message}`, err);
+  }
+  return true;
+}
+
+export function getHookStatus(hook: HookName): HookStatus {
+  const hookPath = getHookPath(hook);
+  const chainedPath = getChainedPath(hook);
+  const exists = fs.existsSync(hookPath);
+  const managed = exists && isManagedHook(hookPath);
+
+  return {
+    hook: hook,
+    path: hookPath,
+    installed: managed,
+    foreign: exists && !managed,
+    chained: managed && fs.existsSync(chainedPath) ? chainedPath : null
+  };
+}
+
+// prepare-commit-msg source argument: empty for a plain `git commit`,
+// "template" with commit.template, otherwise message/merge/squash/commit
+export function shouldGenerateForSource(source?: string | null): boolean {
+  return !source || source === 'template';
+}
+
+// Check whether the commit message buffer already has content besides
+// comments and the diff below the scissors line (git commit -v)
+export function hasMessageContent(buffer: string, commentChar: string = '#'): boolean {
+  return stripComments(buffer, commentChar) !== '';
+}
+
+// Put the generated message above git's comment block in the editor buffer
+export function writeMessageToBuffer(messageFile: string, message: string, commentChar: string = getCommentChar()): boolean {
+  const existing = fs.existsSync(messageFile) ? fs.readFileSync(messageFile, 'utf8') : '';
+  if (hasMessageContent(existing, commentChar)) {
+    return false;
+  }
+  fs.writeFileSync(messageFile, `${message.trim()}\n${existing.startsWith('\n') ? '' : '\n'}${existing}`);
+  return true;
+}
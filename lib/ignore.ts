@@ -0,0 +1,148 @@
+// .gcmignore - gitignore-style patterns for paths to leave out of messages
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getRepoRoot } from './config';
+import CONSTANTS from './constants';
+
+interface IgnoreRule {
+  pattern: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+export interface IgnoreMatcher {
+  patterns: string[];
+  ignores(filePath: string): boolean;
+}
+
+// Translate a gitignore glob into a regular expression
+function globToRegex(glob: string, anchored: boolean): RegExp {
+  let out = '';
+  let i = 0;
+  while (i < glob.length) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" everything below
+        if (glob[i + 2] === '/') {
+          out += '(?:.*/)?';
+          i += 3;
+        } else {
+          out += '.*';
+          i += 2;
+        }
+        continue;
+      }
+      out += '[^/]*';
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        out += '\\[';
+      } else {
+        out += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      i += 1;
+      out += glob[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else {
+      out += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+    i += 1;
+  }
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${out}$`);
+}
+
+function parseRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.slice(1);
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) pattern = pattern.slice(0, -1);
+
+  // A slash anywhere but the end ties the pattern to the repository root
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) pattern = pattern.slice(1);
+  if (!pattern) {
+    return null;
+  }
+
+  return { pattern: line.trim(), regex: globToRegex(pattern, anchored), negate, dirOnly };
+}
+
+// Build a matcher from gitignore-style lines (later lines win, "!" re-includes)
+export function createIgnoreMatcher(patterns: string[]): IgnoreMatcher {
+  const rules = patterns.map(parseRule).filter((r): r is IgnoreRule => r !== null);
+
+  const matches = (candidate: string, isDir: boolean, listedDir: boolean = false): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue;
+      // An untracked directory ("dist/") counts as ignored when its contents are
+      if (rule.regex.test(candidate) || (listedDir && rule.regex.test(`${candidate}/`))) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  return {
+    patterns: rules.map(r => r.pattern),
+    ignores(filePath: string): boolean {
+      if (rules.length === 0) {
+        return false;
+      }
+      const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+      const parts = normalized.split('/');
+      // As in git, nothing inside an ignored directory can be re-included
+      for (let i = 1; i < parts.length; i++) {
+        if (matches(parts.slice(0, i).join('/'), true)) {
+          return true;
+        }
+      }
+      const isDir = filePath.endsWith('/');
+      return matches(normalized, isDir, isDir);
+    }
+  };
+}
+
+// Lines of .gcmignore at the repository root
+export function readIgnoreFile(cwd: string = process.cwd()): string[] {
+  const root = getRepoRoot(cwd);
+  if (!root) {
+    return [];
+  }
+  const file = path.join(root, CONSTANTS.IGNORE_FILE_NAME);
+  try {
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf8').split(/\r?\n/) : [];
+  } catch (error) {
+    // Unreadable ignore file - ignore nothing rather than fail
+    return [];
+  }
+}
+
+// Config globs first so .gcmignore can re-include with "!"
+export function getIgnorePatterns(configPatterns: string[] = [], cwd: string = process.cwd()): string[] {
+  return [...configPatterns, ...readIgnoreFile(cwd)].map(p => p.trim()).filter(p => p && !p.startsWith('#'));
+}
+
+// Split paths into kept and ignored
+export function partitionIgnored(files: string[], patterns: string[] = []): { kept: string[]; ignored: string[] } {
+  const matcher = createIgnoreMatcher(patterns);
+  const kept: string[] = [];
+  const ignored: string[] = [];
+  for (const file of files) {
+    (matcher.ignores(file) ? ignored : kept).push(file);
+  }
+  return { kept, ignored };
+}
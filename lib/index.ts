@@ -0,0 +1,9 @@
+// Library entry point - what require('gitcommitmessage') returns
+
+export { generateCommitMessage, GenerateOptions } from './generate';
+export { MessageResult, MessageSource, StatusSummary } from './message';
+export { GCMError, ConfigError, GitError, APIError, ValidationError, TemplateError } from './errors';
+export { runGit, GitRunner, GitResult } from './utils';
+export { createProvider, Provider, ProviderName, ProviderSettings } from './providers';
+export { diskCache, MessageCache } from './cache';
+export { Logger, Log, silentLog } from './logger';
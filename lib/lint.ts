@@ -0,0 +1,263 @@
+// Commit message linting and auto-fixing (Conventional Commits rules)
+
+import { parseCommitMessage, isIgnoredMessage, ConventionalCommit } from './conventional';
+import { ConfigError } from './errors';
+import CONSTANTS from './constants';
+
+export type Severity = 'error' | 'warning' | 'off';
+
+export type RuleName =
+  | 'header-format'
+  | 'type-enum'
+  | 'scope-format'
+  | 'scope-enum'
+  | 'subject-empty'
+  | 'subject-max-length'
+  | 'subject-full-stop'
+  | 'subject-imperative'
+  | 'body-leading-blank'
+  | 'body-max-line-length';
+
+export interface LintConfig {
+  types?: string[];
+  scopes?: string[];
+  scopePattern?: string;
+  maxSubjectLength?: number;
+  maxBodyLineLength?: number;
+  rules?: Partial<Record<RuleName, Severity>>;
+}
+
+export interface LintIssue {
+  rule: RuleName;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface LintResult {
+  valid: boolean;
+  ignored: boolean;
+  errors: LintIssue[];
+  warnings: LintIssue[];
+}
+
+export const DEFAULT_RULES: Record<RuleName, Severity> = {
+  'header-format': 'error',
+  'type-enum': 'error',
+  'scope-format': 'error',
+  'scope-enum': 'error',
+  'subject-empty': 'error',
+  'subject-max-length': 'error',
+  'subject-full-stop': 'warning',
+  'subject-imperative': 'warning',
+  'body-leading-blank': 'warning',
+  'body-max-line-length': 'warning',
+};
+
+// Past tense / gerund / third person forms and their imperative
+const NON_IMPERATIVE: Record<string, string> = {
+  added: 'add', adds: 'add', adding: 'add',
+  fixed: 'fix', fixes: 'fix', fixing: 'fix',
+  updated: 'update', updates: 'update', updating: 'update',
+  removed: 'remove', removes: 'remove', removing: 'remove',
+  changed: 'change', changes: 'change', changing: 'change',
+  created: 'create', creates: 'create', creating: 'create',
+  deleted: 'delete', deletes: 'delete', deleting: 'delete',
+  implemented: 'implement', implements: 'implement', implementing: 'implement',
+  improved: 'improve', improves: 'improve', improving: 'improve',
+  refactored: 'refactor', refactors: 'refactor', refactoring: 'refactor',
+  renamed: 'rename', renames: 'rename', renaming: 'rename',
+  moved: 'move', moves: 'move', moving: 'move',
+  replaced: 'replace', replaces: 'replace', replacing: 'replace',
+  bumped: 'bump', bumps: 'bump', bumping: 'bump',
+  introduced: 'introduce', introduces: 'introduce', introducing: 'introduce',
+  allowed: 'allow', allows: 'allow', allowing: 'allow',
+  made: 'make', makes: 'make', making: 'make',
+  used: 'use', uses: 'use', using: 'use',
+  supported: 'support', supports: 'support', supporting: 'support',
+  handled: 'handle', handles: 'handle', handling: 'handle',
+  cleaned: 'clean', cleans: 'clean', cleaning: 'clean',
+  upgraded: 'upgrade', upgrades: 'upgrade', upgrading: 'upgrade',
+  wrote: 'write', writes: 'write', writing: 'write',
+};
+
+// -ed / -ing words that are fine as the first word
+const IMPERATIVE_EXCEPTIONS = new Set(['embed', 'feed', 'need', 'seed', 'shed', 'speed', 'proceed', 'exceed', 'succeed',
+  'bring', 'ping', 'ring', 'sing', 'spring', 'string']);
+
+function resolveRules(config: LintConfig): Record<RuleName, Severity> {
+  return { ...DEFAULT_RULES, ...(config.rules || {}) };
+}
+
+// Imperative form for common non-imperative verbs
+export function suggestImperative(word: string): string | null {
+  return NON_IMPERATIVE[word.toLowerCase()] || null;
+}
+
+// Heuristic: past tense, gerund or known third person forms
+export function looksNonImperative(word: string): boolean {
+  const lower = word.toLowerCase();
+  if (NON_IMPERATIVE[lower]) {
+    return true;
+  }
+  if (IMPERATIVE_EXCEPTIONS.has(lower) || lower.length < 5) {
+    return false;
+  }
+  return /(ed|ing)$/.test(lower);
+}
+
+// lint.scopePattern comes from user and repo config, so a bad one is a config error
+export function compileScopePattern(source?: string): RegExp {
+  try {
+    return new RegExp(source || CONSTANTS.SCOPE_PATTERN);
+  } catch (error) {
+    throw new ConfigError(`Invalid lint.scopePattern ${JSON.stringify(source)}: ${(error as Error).message}`);
+  }
+}
+
+// Check a message against the configured rules
+export function lintMessage(message: string, config: LintConfig = {}): LintResult {
+  const rules = resolveRules(config);
+  const maxSubject = config.maxSubjectLength || CONSTANTS.MAX_SUBJECT_LENGTH;
+  const maxBodyLine = config.maxBodyLineLength || CONSTANTS.MAX_BODY_LINE_LENGTH;
+  const types = config.types && config.types.length ? config.types : [...CONSTANTS.COMMIT_TYPES];
+  const issues: LintIssue[] = [];
+
+  const report = (rule: RuleName, text: string) => {
+    const severity = rules[rule];
+    if (severity !== 'off') {
+      issues.push({ rule, severity, message: text });
+    }
+  };
+
+  const parsed = parseCommitMessage(message);
+  if (isIgnoredMessage(parsed.header)) {
+    return { valid: true, ignored: true, errors: [], warnings: [] };
+  }
+
+  if (!parsed.isConventional) {
+    report('header-format', 'Subject must look like "type(scope): description"');
+  } else {
+    if (parsed.type && !types.includes(parsed.type)) {
+      report('type-enum', `Type "${parsed.type}" is not one of: ${types.join(', ')}`);
+    }
+    if (parsed.scope !== null) {
+      const pattern = compileScopePattern(config.scopePattern);
+      const scopes = parsed.scope.split(/[,/]/).map(s => s.trim());
+      if (!parsed.scope || scopes.some(s => !pattern.test(s))) {
+        report('scope-format', `Scope "${parsed.scope}" does not match ${pattern}`);
+      }
+      if (config.scopes && config.scopes.length) {
+        const unknown = scopes.filter(s => !config.scopes!.includes(s));
+        if (unknown.length) {
+          report('scope-enum', `Scope "${unknown.join(', ')}" is not one of: ${config.scopes.join(', ')}`);
+        }
+      }
+    }
+  }
+
+  if (!parsed.description) {
+    report('subject-empty', 'Subject description is empty');
+  } else {
+    if (/[.!?,;:]$/.test(parsed.description)) {
+      report('subject-full-stop', 'Subject should not end with punctuation');
+    }
+    const firstWord = parsed.description.split(/\s+/)[0].replace(/[^\w-]/g, '');
+    if (looksNonImperative(firstWord)) {
+      const suggestion = suggestImperative(firstWord);
+      report('subject-imperative', suggestion
+        ? `Use the imperative mood: "${suggestion}" instead of "${firstWord}"`
+        : `Use the imperative mood instead of "${firstWord}"`);
+    }
+  }
+
+  if (parsed.header.length > maxSubject) {
+    report('subject-max-length', `Subject is ${parsed.header.length} characters (max ${maxSubject})`);
+  }
+
+  const lines = message.trim().split(/\r?\n/);
+  if (lines.length > 1 && lines[1].trim() !== '') {
+    report('body-leading-blank', 'Separate the subject from the body with a blank line');
+  }
+  const longLines = lines.slice(1).filter(line => line.length > maxBodyLine && !/^\S+:\/\/\S+$/.test(line.trim()));
+  if (longLines.length) {
+    report('body-max-line-length', `${longLines.length} body line(s) longer than ${maxBodyLine} characters`);
+  }
+
+  const errors = issues.filter(i => i.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    ignored: false,
+    errors: errors,
+    warnings: issues.filter(i => i.severity === 'warning')
+  };
+}
+
+// Wrap a single long line, keeping list markers as a hanging indent
+function wrapLine(line: string, width: number): string {
+  // Short lines, indented blocks (code, quoted output) and URLs are left untouched
+  if (line.length <= width || /^(\s{2,}|\t)/.test(line) || !/\s/.test(line.trim())) {
+    return line;
+  }
+
+  const marker = line.match(/^\s?([-*+]|\d+[.)])\s+/);
+  const indent = marker ? ' '.repeat(marker[0].length) : '';
+  const out: string[] = [];
+  let current = '';
+  for (const word of line.trim().split(/\s+/)) {
+    if (current.trim() && current.length + 1 + word.length > width) {
+      out.push(current);
+      current = indent + word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) out.push(current);
+  return out.join('\n');
+}
+
+// Shorten the subject at a word boundary
+function trimSubject(header: string, max: number): string {
+  let subject = header.trim().replace(/\s+/g, ' ');
+  subject = subject.replace(/[.,;:]+$/, '');
+  if (subject.length <= max) {
+    return subject;
+  }
+  const cut = subject.slice(0, max + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  const prefix = subject.match(/^[^:]+: /);
+  const minimum = prefix ? prefix[0].length + 1 : 1;
+  return (lastSpace >= minimum ? cut.slice(0, lastSpace) : subject.slice(0, max)).replace(/[\s.,;:-]+$/, '');
+}
+
+// Fix what can be fixed mechanically: subject punctuation/length, blank line, body wrapping
+export function fixMessage(message: string, config: LintConfig = {}): string {
+  const maxSubject = config.maxSubjectLength || CONSTANTS.MAX_SUBJECT_LENGTH;
+  const maxBodyLine = config.maxBodyLineLength || CONSTANTS.MAX_BODY_LINE_LENGTH;
+
+  const text = message.replace(/\r\n/g, '\n').trim();
+  if (!text) {
+    return text;
+  }
+  const [header, ...rest] = text.split('\n');
+  if (isIgnoredMessage(header)) {
+    return text;
+  }
+
+  const parsed: ConventionalCommit = parseCommitMessage(text);
+  const subject = trimSubject(header, maxSubject);
+
+  const paragraphs = rest.join('\n').trim().split(/\n\s*\n/).map(p => p.replace(/\s+$/, '')).filter(p => p.trim());
+  const footerCount = parsed.footers.length ? 1 : 0;
+  const bodyParagraphs = paragraphs.slice(0, paragraphs.length - footerCount).map(p => p.split('\n').map(line => wrapLine(line, maxBodyLine)).join('\n'));
+  const footerParagraphs = paragraphs.slice(paragraphs.length - footerCount);
+
+  return [subject, ...bodyParagraphs, ...footerParagraphs].join('\n\n');
+}
+
+// Format issues for terminal output
+export function formatLintResult(result: LintResult): string[] {
+  return [
+    ...result.errors.map(i => `✗ ${i.message} [${i.rule}]`),
+    ...result.warnings.map(i => `⚠ ${i.message} [${i.rule}]`)
+  ];
+}
@@ -8,7 +8,15 @@ const LOG_LEVELS = {
 
 type LogLevel = keyof typeof LOG_LEVELS;
 
-export class Logger {
+// What gcm logs through; Logger or any object with these methods
+export interface Log {
+  error(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  debug(...args: unknown[]): void;
+}
+
+export class Logger implements Log {
   private level: number;
   private verbose: boolean;
 
@@ -42,4 +50,12 @@ export class Logger {
   }
 }
 
+// Drops everything; the library default, so callers decide what gets printed
+export const silentLog: Log = {
+  error: () => undefined,
+  warn: () => undefined,
+  info: () => undefined,
+  debug: () => undefined
+};
+
 export default Logger;
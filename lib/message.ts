@@ -1,14 +1,22 @@
 // Commit message generation (AI + simple fallback)
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { APIError } from './errors';
-import { retry, plural } from './utils';
-import { getApiKey, getModel } from './config';
-import { getCachedMessage, cacheMessage } from './cache';
-import { buildPromptFromTemplate } from './templates';
+import { retry, plural, GitContext } from './utils';
+import { getApiKey, getModel, getBaseUrl, getProviderName, MessageStyle } from './config';
+import { createProvider, providerNeedsApiKey, Provider, ProviderName } from './providers';
+import { diskCache, buildCacheKey, MessageCache } from './cache';
+import { buildPromptFromTemplate, getTemplate, PromptContext } from './templates';
+import { hashFiles, WorkingChange } from './git';
+import { createIgnoreMatcher } from './ignore';
+import { redactDiff, describeRedactions, RedactConfig } from './redact';
+import { inferScope, ScopePolicy } from './scope';
+import { extractTicket, applyTicket, TicketConfig } from './ticket';
+import { fixMessage, lintMessage, formatLintResult, LintConfig } from './lint';
+import { splitMessage } from './trailers';
+import { PatchFile } from './patch';
 import { withProgress } from './progress';
 import CONSTANTS from './constants';
-import Logger from './logger';
+import { Log } from './logger';
 
 export interface StatusSummary {
   branch: string | null;
@@ -34,6 +42,11 @@ export interface StatusSummary {
     renamed: string[];
     untracked: string[];
   };
+  // Changes to paths matched by .gcmignore or the ignore setting
+  ignored?: {
+    staged: number;
+    total: number;
+  };
 }
 
 export interface MessageOptions {
@@ -42,10 +55,30 @@ export interface MessageOptions {
   simple?: boolean;
   verbose?: boolean;
   template?: string;
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  noCache?: boolean;
+  style?: MessageStyle;
+  diffTokenBudget?: number;
+  ignore?: string[];
+  scopeMap?: Record<string, string>;
+  scopePolicy?: ScopePolicy;
+  redact?: RedactConfig;
+  ticket?: TicketConfig;
+  trailers?: string[]; // appended after generation, see lib/trailers.ts
+  diffBase?: string; // amend and reword: describe changes since this commit
+  diffTarget?: string; // reword: the commit being described (default: the index)
+  patch?: PatchFile[]; // --diff-file / --stdin: describe this patch instead of the repository
+  lint?: LintConfig;
+  git?: GitContext; // where git runs (default: the process working directory)
+  client?: Provider; // use this provider instead of one built from the settings
+  cache?: MessageCache; // default: the on-disk cache
 }
 
-// Parse git status porcelain v2 output
-export function parseStatus(output: string): StatusSummary {
+// Parse git status porcelain v2 output; paths matching `ignore` are only counted
+export function parseStatus(output: string, ignore: string[] = []): StatusSummary {
+  const matcher = createIgnoreMatcher(ignore);
   const lines = output.split(/\r?\n/).filter(Boolean);
   const summary: StatusSummary = {
     branch: null,
@@ -55,8 +88,10 @@ export function parseStatus(output: string): StatusSummary {
     unstaged: { modified: 0, deleted: 0 },
     untracked: 0,
     conflicts: 0,
-    samples: { added: [], modified: [], deleted: [], renamed: [], untracked: [] }
+    samples: { added: [], modified: [], deleted: [], renamed: [], untracked: [] },
+    ignored: { staged: 0, total: 0 }
   };
+  const ignored = summary.ignored as { staged: number; total: number };
 
   for (const line of lines) {
     if (line.startsWith('# ')) {
@@ -75,8 +110,12 @@ export function parseStatus(output: string): StatusSummary {
 
     const type = line[0];
     if (type === '?') {
-      summary.untracked += 1;
       const filePath = line.slice(2);
+      if (matcher.ignores(filePath)) {
+        ignored.total += 1;
+        continue;
+      }
+      summary.untracked += 1;
       if (summary.samples.untracked.length < CONSTANTS.MAX_FILE_SAMPLES) {
         summary.samples.untracked.push(filePath);
       }
@@ -88,8 +127,11 @@ export function parseStatus(output: string): StatusSummary {
       continue;
     }
     if (type === '1' || type === '2') {
-      const parts = line.split(/\s+/);
-      if (parts.length < 2) continue;
+      // "1 XY sub mH mI mW hH hI <path>" and
+      // "2 XY sub mH mI mW hH hI Xscore <path><TAB><origPath>"; paths may contain spaces
+      const fieldCount = type === '2' ? 9 : 8;
+      const parts = line.split(' ');
+      if (parts.length <= fieldCount) continue;
       
       const xy = parts[1];
       if (!xy || xy.length < 2) continue;
@@ -97,11 +139,20 @@ export function parseStatus(output: string): StatusSummary {
       const indexStatus = xy[0];
       const worktreeStatus = xy[1];
       
-      let filePath = parts[parts.length - 1];
+      let filePath = parts.slice(fieldCount).join(' ');
       let origPath: string | null = null;
-      if (type === '2' && parts.length >= 3) {
-        origPath = parts[parts.length - 2];
-        filePath = parts[parts.length - 1];
+      if (type === '2') {
+        const tab = filePath.indexOf('\t');
+        if (tab !== -1) {
+          origPath = filePath.slice(tab + 1);
+          filePath = filePath.slice(0, tab);
+        }
+      }
+
+      if (matcher.ignores(filePath)) {
+        ignored.total += 1;
+        if (indexStatus !== '.') ignored.staged += 1;
+        continue;
       }
 
       // Staged changes
@@ -149,11 +200,78 @@ export function parseStatus(output: string): StatusSummary {
   return summary;
 }
 
-// Get list of files that changed
-export function getChangedFiles(summary: StatusSummary, stagedOnly: boolean): string[] {
+// StatusSummary for a list of changes that are all staged together (a split
+// group, or the commit an amend produces); paths matching `ignore` are only counted
+export function summarizeChanges(changes: WorkingChange[], branch: string | null, ignore: string[] = []): StatusSummary {
+  const matcher = createIgnoreMatcher(ignore);
+  const summary: StatusSummary = {
+    branch: branch,
+    ahead: 0,
+    behind: 0,
+    staged: { added: 0, modified: 0, deleted: 0, renamed: 0, copied: 0 },
+    unstaged: { modified: 0, deleted: 0 },
+    untracked: 0,
+    conflicts: 0,
+    samples: { added: [], modified: [], deleted: [], renamed: [], untracked: [] },
+    ignored: { staged: 0, total: 0 }
+  };
+  const ignored = summary.ignored as { staged: number; total: number };
+
+  for (const change of changes) {
+    if (matcher.ignores(change.path)) {
+      ignored.staged += 1;
+      ignored.total += 1;
+      continue;
+    }
+    switch (change.status) {
+      case 'added':
+      case 'untracked':
+        summary.staged.added += 1;
+        summary.samples.added.push(change.path);
+        break;
+      case 'deleted':
+        summary.staged.deleted += 1;
+        summary.samples.deleted.push(change.path);
+        break;
+      case 'renamed':
+        summary.staged.renamed += 1;
+        summary.samples.renamed.push(change.oldPath ? `${change.oldPath} -> ${change.path}` : change.path);
+        break;
+      case 'conflict':
+        summary.conflicts += 1;
+        break;
+      default:
+        summary.staged.modified += 1;
+        summary.samples.modified.push(change.path);
+    }
+  }
+  return summary;
+}
+
+// Check whether there is anything to describe
+export function hasChanges(summary: StatusSummary, stagedOnly: boolean): boolean {
+  const staged = summary.staged.added + summary.staged.modified + summary.staged.deleted +
+    summary.staged.renamed + summary.staged.copied;
+  const ignored = summary.ignored || { staged: 0, total: 0 };
+  if (staged > 0 || ignored.staged > 0) {
+    return true;
+  }
+  return !stagedOnly && summary.unstaged.modified + summary.unstaged.deleted + summary.untracked + ignored.total > 0;
+}
+
+// Get list of files that changed: every path in `changes` (see getChangedPaths)
+// when given, otherwise the summary samples
+export function getChangedFiles(summary: StatusSummary, stagedOnly: boolean, changes?: WorkingChange[]): string[] {
   const files = new Set<string>();
   
-  if (stagedOnly) {
+  if (changes) {
+    changes
+      .filter(c => c.status !== 'conflict')
+      .forEach(c => {
+        if (c.oldPath) files.add(c.oldPath);
+        files.add(c.path);
+      });
+  } else if (stagedOnly) {
     summary.samples.added.forEach(f => files.add(f));
     summary.samples.modified.forEach(f => files.add(f));
     summary.samples.deleted.forEach(f => files.add(f));
@@ -207,10 +325,20 @@ export function buildSimpleMessage(summary: StatusSummary, opts: MessageOptions)
     addPart(summary.untracked, 'untracked');
     addPart(summary.conflicts, 'conflict');
   }
+  const ignored = summary.ignored ? (opts.stagedOnly ? summary.ignored.staged : summary.ignored.total) : 0;
+  if (ignored > 0) parts.push(`${ignored} generated`);
 
   const titleCore = parts.length ? parts.join(', ') : 'no changes';
   const ab = (summary.ahead || summary.behind) ? `, ahead ${summary.ahead}, behind ${summary.behind}` : '';
-  const title = `${titleCore}${scope ? ` — ${scope}` : ''}${ab}`;
+  // A "chore" type keeps the message valid for gcm lint and the commit-msg
+  // hook; monorepos get the package scope, e.g. "chore(api): 2 modified — on main"
+  const commitScope = opts.style === 'plain' ? null : inferScope(getChangedFiles(summary, opts.stagedOnly || false), {
+    scopeMap: opts.scopeMap,
+    scopePolicy: opts.scopePolicy,
+    scopes: opts.lint && opts.lint.scopes
+  }, opts.git && opts.git.cwd);
+  const prefix = opts.style === 'plain' ? '' : commitScope ? `chore(${commitScope}): ` : 'chore: ';
+  const title = `${prefix}${titleCore}${scope ? ` — ${scope}` : ''}${ab}`;
 
   const limitList = (list: string[]) => list.length > CONSTANTS.MAX_FILE_SAMPLES 
     ? { list: list.slice(0, CONSTANTS.MAX_FILE_SAMPLES), more: list.length - CONSTANTS.MAX_FILE_SAMPLES } 
@@ -228,100 +356,308 @@ export function buildSimpleMessage(summary: StatusSummary, opts: MessageOptions)
   if (delL.list.length) bodyParts.push(`deleted: ${delL.list.join(', ')}${delL.more ? ` (+${delL.more} more)` : ''}`);
   if (renL.list.length) bodyParts.push(`renamed: ${renL.list.join(', ')}${renL.more ? ` (+${renL.more} more)` : ''}`);
   if (!opts.stagedOnly && untrackedL.list.length) bodyParts.push(`untracked: ${untrackedL.list.join(', ')}${untrackedL.more ? ` (+${untrackedL.more} more)` : ''}`);
+  if (ignored > 0) bodyParts.push(`${plural(ignored, 'generated file')} changed`);
+
+  const message = bodyParts.length ? `${title}\n\n${bodyParts.join('\n')}` : title;
+  return fixMessage(applyTicket(message, extractTicket(summary.branch, opts.ticket), opts.ticket), opts.lint);
+}
+
+// Untracked files have no diff, so their content has to go into the cache key
+function hashUntrackedFiles(summary: StatusSummary, files: string[], git: GitContext = {}): string[] {
+  const untracked = new Set(summary.samples.untracked);
+  try {
+    return hashFiles(files.filter(f => untracked.has(f)), git);
+  } catch (error) {
+    return [];
+  }
+}
 
-  return bodyParts.length ? `${title}\n\n${bodyParts.join('\n')}` : title;
+// Normalize a message for de-duplication
+function messageFingerprint(message: string): string {
+  return message.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
 }
 
-// Generate commit message using Gemini AI
-export async function generateWithGemini(
+// Generate commit message using the configured AI provider
+export async function generateWithAI(
   summary: StatusSummary,
   diff: string,
   files: string[],
   opts: MessageOptions,
-  logger?: Logger
+  logger?: Log,
+  context: PromptContext = {}
 ): Promise<string> {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    throw new APIError('API key not configured. Run "gcm config --set" to set your API key.', 'NO_API_KEY');
+  const [message] = await generateCandidates(summary, diff, files, opts, 1, logger, context);
+  return message;
+}
+
+export interface ProviderSession {
+  name: ProviderName;
+  label: string;
+  baseUrl: string | null;
+  provider: Provider;
+  requestedModel: string;
+  models: string[]; // requested model first, then the provider's fallbacks
+}
+
+// Provider, credentials and models to try for these options
+export function openProviderSession(opts: MessageOptions): ProviderSession {
+  // Config comes from the repository being described
+  const cwd = (opts.git && opts.git.cwd) || process.cwd();
+  const name = opts.client ? opts.client.name : getProviderName(opts.provider, cwd);
+  const label = CONSTANTS.PROVIDER_LABELS[name];
+  const baseUrl = opts.baseUrl || getBaseUrl(name, cwd);
+  const apiKey = getApiKey(name, cwd);
+  if (!opts.client && !apiKey && providerNeedsApiKey(name, baseUrl)) {
+    throw new APIError(
+      `${label} API key not configured. Run "gcm config set" or set ${CONSTANTS.API_KEY_ENV_VARS[name]}.`,
+      'NO_API_KEY'
+    );
+  }
+  const fallbackModels: readonly string[] = CONSTANTS.DEFAULT_MODELS[name];
+  const requestedModel = opts.model || getModel(fallbackModels[0], name, cwd);
+  const modelsToTry = requestedModel ? [requestedModel, ...fallbackModels] : fallbackModels;
+  return {
+    name: name,
+    label: label,
+    baseUrl: baseUrl,
+    provider: opts.client || createProvider(name, { apiKey, baseUrl }),
+    requestedModel: requestedModel,
+    models: [...new Set(modelsToTry)]
+  };
+}
+
+// Run one request with the first model that works, falling back through the
+// model list when a model is unavailable
+export async function withModelFallback<T>(
+  session: ProviderSession,
+  attempt: (model: string) => Promise<T>,
+  logger?: Log
+): Promise<{ model: string; value: T }> {
+  const label = session.label;
+  let lastError: Error | null = null;
+
+  for (const model of session.models) {
+    try {
+      return { model, value: await attempt(model) };
+    } catch (error) {
+      const err = error as Error;
+      const code = (err as any).code;
+      // Model not found? Try the next one
+      if (code === 'MODEL_NOT_FOUND' || err.message.includes('404') || err.message.includes('not found') || err.message.includes('not supported')) {
+        if (logger) {
+          logger.debug(`Model ${model} unavailable, trying next...`);
+        }
+        lastError = err;
+        continue;
+      }
+
+      // Other errors - bail out
+      if (code === 'INVALID_API_KEY' || err.message.includes('API_KEY') || code === 'NO_API_KEY') {
+        throw new APIError(`Invalid or missing ${label} API key. Get your API key from ${CONSTANTS.API_KEY_URLS[session.name]}`, 'INVALID_API_KEY');
+      }
+      if (code === 'QUOTA_EXCEEDED' || err.message.includes('quota') || err.message.includes('rate limit')) {
+        throw new APIError(`${label} API quota exceeded or rate limited. Please try again later or use --simple flag.`, 'QUOTA_EXCEEDED');
+      }
+      throw error;
+    }
+  }
+
+  // All models failed
+  if (lastError) {
+    throw new APIError(
+      `No available ${label} model found. Tried: ${session.models.join(', ')}. Error: ${(lastError as Error).message}. You can set a specific model with --model, the GCM_MODEL environment variable or in config.`,
+      'MODEL_NOT_FOUND'
+    );
+  }
+
+  throw new APIError('Failed to generate message with any available model.', 'GENERATION_FAILED');
+}
+
+export type MessageSource = 'ai' | 'simple' | 'cache';
+
+// Generated messages and where they came from
+export interface Generation {
+  messages: string[];
+  source: MessageSource;
+  provider: ProviderName | null; // null for simple messages
+  model: string | null;
+  warnings: string[];
+}
+
+// Generate up to `count` distinct messages
+export async function generateCandidates(
+  summary: StatusSummary,
+  rawDiff: string,
+  files: string[],
+  opts: MessageOptions,
+  count: number = 1,
+  logger?: Log,
+  context: PromptContext = {}
+): Promise<string[]> {
+  const generation = await generateMessages(summary, rawDiff, files, opts, count, logger, context);
+  return generation.messages;
+}
+
+// Generate up to `count` distinct messages. The first call settles which model
+// works, the remaining alternatives are requested in parallel and de-duplicated.
+export async function generateMessages(
+  summary: StatusSummary,
+  rawDiff: string,
+  files: string[],
+  opts: MessageOptions,
+  count: number = 1,
+  logger?: Log,
+  context: PromptContext = {}
+): Promise<Generation> {
+  const candidateCount = Math.max(1, Math.min(count, CONSTANTS.MAX_CANDIDATES));
+  const session = openProviderSession(opts);
+  const templateName = opts.template || 'default';
+  const cache = opts.cache || diskCache;
+
+  // Nothing below sees the unredacted diff
+  const redaction = redactDiff(rawDiff, opts.redact);
+  const diff = redaction.diff;
+  const warnings = describeRedactions(redaction).map(line => `redacted: ${line}`);
+  if (logger) {
+    warnings.forEach(line => logger.debug(line));
   }
   
   // Check cache first
-  const cacheKey = diff || JSON.stringify(files);
-  const cachedMessage = getCachedMessage(cacheKey);
-  if (cachedMessage) {
-    if (logger) {
-      logger.debug('Using cached commit message');
+  const cacheKey = buildCacheKey({
+    provider: session.name,
+    model: session.requestedModel,
+    template: templateName,
+    templateContent: getTemplate(templateName),
+    options: {
+      stagedOnly: opts.stagedOnly || false,
+      baseUrl: session.baseUrl || null,
+      style: opts.style || 'conventional',
+      lint: opts.lint || {},
+      ignore: opts.ignore || [],
+      scopeMap: opts.scopeMap || {},
+      scopePolicy: opts.scopePolicy || 'none',
+      candidates: candidateCount
+    },
+    diff: diff,
+    files: files,
+    fileHashes: hashUntrackedFiles(summary, files, opts.git)
+  });
+  // The ticket comes from the branch, so it is added after the cache
+  const ticket = extractTicket(summary.branch, opts.ticket);
+  const withTicket = (messages: string[]) => messages.map(m => fixMessage(applyTicket(m, ticket, opts.ticket), opts.lint));
+
+  // A regeneration must produce something new
+  const regenerating = !!context.previousMessage;
+  if (!opts.noCache && !regenerating) {
+    const cachedMessages = cache.get(cacheKey);
+    if (cachedMessages) {
+      if (logger) {
+        logger.debug('Using cached commit message');
+      }
+      return { messages: withTicket(cachedMessages), source: 'cache', provider: session.name, model: session.requestedModel, warnings };
     }
-    return cachedMessage;
   }
-  
-  const defaultModel = getModel(CONSTANTS.DEFAULT_MODELS[0]);
-  const requestedModel = defaultModel;
-  const modelsToTry = requestedModel ? [requestedModel, ...CONSTANTS.DEFAULT_MODELS] : CONSTANTS.DEFAULT_MODELS;
-  const uniqueModels = [...new Set(modelsToTry)];
 
-  let lastError: Error | null = null;
-  
-  const generateFn = async (): Promise<string> => {
-    for (const model of uniqueModels) {
-      try {
-        return await retry(async () => {
-          const genAI = new GoogleGenerativeAI(apiKey);
-          const geminiModel = genAI.getGenerativeModel({ model: model });
-
-          // Build prompt from template
-          const templateName = opts.template || 'default';
-          const prompt = buildPromptFromTemplate(summary, diff, files, opts, templateName);
-
-          const result = await geminiModel.generateContent(prompt);
-          const response = await result.response;
-          let message = response.text().trim();
-
-          // Strip markdown code blocks if present
-          message = message.replace(/^```[\w]*\n?/gm, '').replace(/\n?```$/gm, '').trim();
-
-          if (!message) {
-            throw new APIError('Generated message is empty', 'EMPTY_RESPONSE');
-          }
-
-          // Save to cache
-          cacheMessage(cacheKey, message);
-
-          return message;
-        }, CONSTANTS.API_RETRY_ATTEMPTS);
-      } catch (error) {
-        const err = error as Error;
-        // Model not found? Try the next one
-        if (err.message.includes('404') || err.message.includes('not found') || err.message.includes('not supported')) {
-          if (logger) {
-            logger.debug(`Model ${model} unavailable, trying next...`);
-          }
-          lastError = err;
-          continue;
-        }
-        
-        // Other errors - bail out
-        if (err.message.includes('API_KEY') || (err as any).code === 'NO_API_KEY') {
-          throw new APIError('Invalid or missing API key. Get your API key from ' + CONSTANTS.GEMINI_API_KEY_URL, 'INVALID_API_KEY');
-        }
-        if (err.message.includes('quota') || err.message.includes('rate limit')) {
-          throw new APIError('Gemini API quota exceeded or rate limited. Please try again later or use --simple flag.', 'QUOTA_EXCEEDED');
+  // One request for one candidate with a known-good model
+  const generateOnce = async (model: string, candidate: number): Promise<string> => {
+    return await retry(async () => {
+      // Build prompt from template
+      const prompt = buildPromptFromTemplate(summary, diff, files, opts, templateName, {
+        ...context,
+        candidate: candidate,
+        candidateCount: candidateCount
+      });
+
+      let message = (await session.provider.generate(prompt, model)).trim();
+
+      // Strip markdown code blocks if present
+      message = message.replace(/^```[\w]*\n?/gm, '').replace(/\n?```$/gm, '').trim();
+
+      if (!message) {
+        throw new APIError('Generated message is empty', 'EMPTY_RESPONSE');
+      }
+
+      // Wrap the body, trim the subject, etc. before anyone sees it
+      message = fixMessage(message, opts.lint);
+      if (logger) {
+        const result = lintMessage(message, opts.lint);
+        formatLintResult(result).forEach(line => logger.debug(`lint: ${line}`));
+      }
+      return message;
+    }, CONSTANTS.API_RETRY_ATTEMPTS);
+  };
+
+  // First candidate, falling back through the model list
+  const first = await withModelFallback(session, model => generateOnce(model, 1), logger);
+  const messages = [first.value];
+  const seen = new Set([messageFingerprint(first.value)]);
+
+  // Alternatives: one parallel round, plus one more for any duplicates
+  let next = 2;
+  for (let round = 0; round < 2 && messages.length < candidateCount; round++) {
+    const wanted = Array.from({ length: candidateCount - messages.length }, () => next++);
+    const results = await Promise.allSettled(wanted.map(candidate => generateOnce(first.model, candidate)));
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        if (logger) {
+          logger.debug(`Alternative failed: ${(result.reason as Error).message}`);
         }
-        throw error;
+        continue;
+      }
+      const fingerprint = messageFingerprint(result.value);
+      if (!seen.has(fingerprint)) {
+        seen.add(fingerprint);
+        messages.push(result.value);
       }
     }
-    
-    // All models failed
-    if (lastError) {
-      throw new APIError(
-        `No available Gemini model found. Tried: ${uniqueModels.join(', ')}. Error: ${lastError.message}. You can set a specific model via GEMINI_MODEL environment variable or in config.`,
-        'MODEL_NOT_FOUND'
-      );
-    }
-    
-    throw new APIError('Failed to generate message with any available model.', 'GENERATION_FAILED');
-  };
+  }
+  if (logger && messages.length < candidateCount) {
+    logger.debug(`Only ${messages.length} of ${candidateCount} candidates were distinct`);
+  }
+
+  // Save to cache (messages refined with feedback only fit that request)
+  if (!context.feedback) {
+    cache.set(cacheKey, messages);
+  }
 
-  // Always use progress indicator (the caller can control visibility)
-  return await generateFn();
+  return { messages: withTicket(messages), source: 'ai', provider: session.name, model: first.model, warnings };
 }
+
+// What "gcm --json" prints: the chosen message in parts, the alternatives,
+// where they came from and the changes they describe
+export interface MessageResult {
+  subject: string | null;
+  body: string | null;
+  trailers: string[];
+  message: string | null; // null when there was nothing to describe
+  candidates: string[];
+  source: MessageSource | null;
+  provider: ProviderName | null;
+  model: string | null;
+  template: string | null;
+  summary: StatusSummary;
+  warnings: string[];
+}
+
+export function buildMessageResult(generation: Generation | null, summary: StatusSummary, opts: MessageOptions, warnings: string[] = []): MessageResult {
+  const message = generation && generation.messages.length ? generation.messages[0] : null;
+  const parts = message ? splitMessage(message) : null;
+  // Lint findings for the chosen message, after auto-fix
+  const lint = message ? formatLintResult(lintMessage(message, opts.lint)).map(line => `lint: ${line.slice(2)}`) : [];
+  return {
+    subject: parts ? parts.subject : null,
+    body: parts ? parts.body : null,
+    trailers: parts ? parts.trailers : [],
+    message: message,
+    candidates: generation ? generation.messages : [],
+    source: generation ? generation.source : null,
+    provider: generation ? generation.provider : null,
+    model: generation ? generation.model : null,
+    template: generation && generation.source !== 'simple' ? opts.template || 'default' : null,
+    summary: summary,
+    warnings: [...warnings, ...(generation ? generation.warnings : []), ...lint]
+  };
+}
+
+// Kept for callers written before providers were pluggable
+export const generateWithGemini = generateWithAI;
@@ -0,0 +1,189 @@
+// Patch files - describe a unified diff without a repository
+
+import { ValidationError } from './errors';
+import { ChangeStatus, NumstatEntry } from './git';
+import { summarizeChanges, StatusSummary } from './message';
+import { createIgnoreMatcher } from './ignore';
+import { budgetDiff } from './budget';
+import CONSTANTS from './constants';
+
+export interface PatchFile {
+  path: string;
+  oldPath: string | null; // renames and copies
+  status: ChangeStatus;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  diff: string; // this file's part of the patch, always with a "diff --git" line
+}
+
+const HUNK_PATTERN = /^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/;
+
+// Undo git's quoting of unusual paths ("a/caf\303\251.txt")
+function unquotePath(text: string): string {
+  if (!text.startsWith('"') || !text.endsWith('"')) {
+    return text;
+  }
+  const bytes: number[] = [];
+  const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\', a: '\x07', b: '\b', f: '\f', r: '\r', v: '\v' };
+  const inner = text.slice(1, -1);
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] !== '\\') {
+      bytes.push(...Buffer.from(inner[i], 'utf8'));
+      continue;
+    }
+    const octal = inner.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      bytes.push(...Buffer.from(escapes[inner[i + 1]] || inner[i + 1] || '', 'utf8'));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
+
+// Path from a ---/+++ line: drop the timestamp "diff -u" adds, then the a/ or b/ prefix
+function headerPath(text: string, prefix: string): string | null {
+  const raw = unquotePath(text.split('\t')[0].trim());
+  if (raw === '/dev/null') {
+    return null;
+  }
+  return raw.startsWith(prefix) ? raw.slice(prefix.length) : raw;
+}
+
+function newFile(header: string, path: string): PatchFile {
+  return { path, oldPath: null, status: 'modified', additions: 0, deletions: 0, binary: false, diff: header };
+}
+
+// Parse a unified diff (git diff, git format-patch or diff -u output) into
+// per-file changes. Mail headers, the commit message and diffstat of a
+// format-patch email are skipped.
+export function parsePatch(text: string): PatchFile[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const files: PatchFile[] = [];
+  let current: PatchFile | null = null;
+  let body: string[] = [];
+  let oldLeft = 0;
+  let newLeft = 0;
+  let seenHunk = false;
+
+  const finish = () => {
+    if (current) {
+      current.diff = [current.diff, ...body].join('\n');
+      files.push(current);
+    }
+    current = null;
+    body = [];
+    seenHunk = false;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Inside a hunk, every line belongs to it until its counts run out
+    if (current && (oldLeft > 0 || newLeft > 0)) {
+      const file: PatchFile = current;
+      body.push(line);
+      if (line.startsWith('+')) {
+        file.additions += 1;
+        newLeft -= 1;
+      } else if (line.startsWith('-')) {
+        file.deletions += 1;
+        oldLeft -= 1;
+      } else if (!line.startsWith('\\')) {
+        oldLeft -= 1;
+        newLeft -= 1;
+      }
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      finish();
+      const m = line.match(/^diff --git ("?a\/.+"?) ("?b\/.+"?)$/);
+      current = newFile(line, m ? headerPath(m[2], 'b/') || '' : line.slice(11));
+      continue;
+    }
+
+    // A plain "diff -u" file starts at a ---/+++ pair outside any git header
+    if (line.startsWith('--- ') && (lines[i + 1] || '').startsWith('+++ ') && (!current || seenHunk)) {
+      finish();
+      const oldPath = headerPath(line.slice(4), 'a/');
+      const path = headerPath(lines[i + 1].slice(4), 'b/');
+      current = newFile(`diff --git a/${oldPath || path} b/${path || oldPath}`, (path || oldPath) as string);
+    }
+    if (!current) {
+      continue;
+    }
+    const file: PatchFile = current;
+    const hunk = line.match(HUNK_PATTERN);
+    // After the hunks only more hunks follow; anything else is trailing text
+    // such as the signature of a format-patch email
+    if (seenHunk && !hunk) {
+      continue;
+    }
+    body.push(line);
+
+    if (hunk) {
+      seenHunk = true;
+      oldLeft = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      newLeft = hunk[2] === undefined ? 1 : Number(hunk[2]);
+    } else if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ') || line.startsWith('copy from ')) {
+      file.oldPath = unquotePath(line.replace(/^(rename|copy) from /, ''));
+      file.status = line.startsWith('rename') ? 'renamed' : 'added';
+    } else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+      file.path = unquotePath(line.replace(/^(rename|copy) to /, ''));
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    } else if (line.startsWith('--- ')) {
+      if (headerPath(line.slice(4), 'a/') === null) file.status = 'added';
+    } else if (line.startsWith('+++ ')) {
+      const path = headerPath(line.slice(4), 'b/');
+      if (path === null) file.status = 'deleted';
+      else if (file.status !== 'renamed') file.path = path;
+    }
+  }
+  finish();
+
+  if (files.length === 0) {
+    throw new ValidationError('No file changes found in the patch. Expected unified diff output such as "git diff".', 'patch');
+  }
+  return files;
+}
+
+// Change counts and file samples, as parseStatus gives for a working tree.
+// Everything in a patch counts as staged.
+export function summarizePatch(files: PatchFile[], ignore: string[] = []): StatusSummary {
+  return summarizeChanges(files.map(f => ({ path: f.path, oldPath: f.oldPath, status: f.status, staged: true })), null, ignore);
+}
+
+// Per-file line counts, in the shape getNumstat returns
+export function getPatchNumstat(files: PatchFile[]): NumstatEntry[] {
+  return files.map(f => ({
+    path: f.path,
+    oldPath: f.oldPath,
+    additions: f.binary ? null : f.additions,
+    deletions: f.binary ? null : f.deletions
+  }));
+}
+
+// The patch for `paths`, without ignored files and fitted into a token budget
+export function getPatchDiff(
+  files: PatchFile[],
+  paths: string[],
+  tokenBudget: number = CONSTANTS.DIFF_TOKEN_BUDGET,
+  ignore: string[] = []
+): string {
+  const matcher = createIgnoreMatcher(ignore);
+  const wanted = new Set(paths);
+  const kept = files.filter(f => (wanted.has(f.path) || (f.oldPath && wanted.has(f.oldPath))) && !matcher.ignores(f.path));
+  if (kept.length === 0) {
+    return '';
+  }
+  return budgetDiff([{ title: null, diff: kept.map(f => f.diff).join('\n') }], tokenBudget);
+}
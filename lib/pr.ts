@@ -0,0 +1,201 @@
+// Pull requests - title and description for the current branch
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGitIn, retry, plural, GitContext } from './utils';
+import { APIError, ValidationError } from './errors';
+import { getRepoRoot } from './config';
+import { getChangesSince, getDiffSince, getNumstat, getCommitMessages, CommitInfo, NumstatEntry } from './git';
+import { summarizeChanges, getChangedFiles, openProviderSession, withModelFallback, MessageOptions, StatusSummary } from './message';
+import { buildPrPrompt } from './templates';
+import { redactDiff, describeRedactions } from './redact';
+import { getDiffTokenBudget } from './budget';
+import CONSTANTS from './constants';
+import Logger from './logger';
+
+export interface PullRequest {
+  title: string;
+  body: string; // markdown
+}
+
+export interface BranchChanges {
+  base: string;
+  mergeBase: string;
+  commits: CommitInfo[]; // oldest first
+  summary: StatusSummary;
+  files: string[];
+  diff: string;
+  numstat: NumstatEntry[];
+}
+
+function refExists(ref: string, git: GitContext): boolean {
+  try {
+    runGitIn(git, ['rev-parse', '--verify', '-q', `${ref}^{commit}`]);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// The branch a PR would target: origin's default branch, then main, master, ...
+export function detectBaseBranch(current: string | null, git: GitContext = {}): string {
+  try {
+    const remoteHead = runGitIn(git, ['symbolic-ref', '-q', '--short', 'refs/remotes/origin/HEAD']).stdout.trim();
+    if (remoteHead && remoteHead !== `origin/${current}`) {
+      return remoteHead;
+    }
+  } catch (error) {
+    // No origin, or its HEAD is unknown
+  }
+  for (const name of CONSTANTS.PR_BASE_BRANCHES) {
+    if (name === current) continue;
+    if (refExists(name, git)) return name;
+    if (refExists(`origin/${name}`, git)) return `origin/${name}`;
+  }
+  throw new ValidationError('Could not detect the base branch. Pass it with --base.', 'base');
+}
+
+// The repository's pull request template, if it has one
+export function readPrTemplate(cwd: string = process.cwd()): string | null {
+  const root = getRepoRoot(cwd);
+  if (!root) {
+    return null;
+  }
+  for (const name of CONSTANTS.PR_TEMPLATE_PATHS) {
+    const file = path.join(root, name);
+    if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+      const text = fs.readFileSync(file, 'utf8').trim();
+      if (text) return text;
+    }
+  }
+  return null;
+}
+
+// Commits, files and diff of the current branch since it left `base`
+export function collectBranchChanges(base: string, branch: string | null, opts: MessageOptions): BranchChanges {
+  const git = opts.git || {};
+  let mergeBase: string;
+  try {
+    mergeBase = runGitIn(git, ['merge-base', base, 'HEAD']).stdout.trim();
+  } catch (error) {
+    throw new ValidationError(`"${base}" is not a branch with history in common with HEAD`, 'base');
+  }
+
+  const commits = getCommitMessages(`${mergeBase}..HEAD`, git).reverse();
+  if (commits.length === 0) {
+    throw new ValidationError(`No commits on ${branch || 'HEAD'} since ${base}`, 'base');
+  }
+
+  const summary = summarizeChanges(getChangesSince(mergeBase, 'HEAD', git), branch, opts.ignore);
+  const files = getChangedFiles(summary, true);
+  const budget = opts.diffTokenBudget || getDiffTokenBudget(opts.provider, opts.model);
+  let numstat: NumstatEntry[] = [];
+  try {
+    numstat = getNumstat(true, mergeBase, 'HEAD', git);
+  } catch (error) {
+    // Per-file stats are optional
+  }
+
+  return {
+    base: base,
+    mergeBase: mergeBase,
+    commits: commits,
+    summary: summary,
+    files: files,
+    diff: getDiffSince(mergeBase, files, budget, opts.ignore, 'HEAD', git),
+    numstat: numstat
+  };
+}
+
+// Split a model response into title and body
+export function parsePullRequest(text: string): PullRequest {
+  let out = text.trim();
+  // Unwrap a response that is fenced as a whole, keeping code blocks inside it
+  const fenced = out.match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+  if (fenced) {
+    out = fenced[1].trim();
+  }
+  const [first = '', ...rest] = out.split('\n');
+  const title = first
+    .replace(/^#+\s*/, '')
+    .replace(/^\*\*(.*)\*\*$/, '$1')
+    .replace(/^title:\s*/i, '')
+    .trim();
+  return { title, body: rest.join('\n').trim() };
+}
+
+function subjectOf(commit: CommitInfo): string {
+  return commit.message.split('\n')[0].trim();
+}
+
+// "feature/add-login" -> "Add login"
+function titleFromBranch(branch: string): string {
+  const words = branch.replace(/^.*\//, '').replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Title and description from the commit list alone (no AI)
+export function buildSimplePullRequest(changes: BranchChanges, prTemplate: string | null = null): PullRequest {
+  const subjects = changes.commits.map(subjectOf);
+  const branch = changes.summary.branch;
+  const title = subjects.length === 1 || !branch || branch === '(detached)'
+    ? subjects[subjects.length - 1]
+    : titleFromBranch(branch);
+  const commitList = subjects.map(s => `- ${s}`).join('\n');
+  const staged = changes.summary.staged;
+  const fileCount = staged.added + staged.modified + staged.deleted + staged.renamed + staged.copied;
+
+  if (prTemplate) {
+    return { title, body: `${prTemplate}\n\n## Commits\n\n${commitList}` };
+  }
+  const body = [
+    '## Summary',
+    '',
+    `${plural(subjects.length, 'commit')} from \`${branch || 'HEAD'}\` into \`${changes.base}\`, changing ${plural(fileCount, 'file')}.`,
+    '',
+    '## Changes',
+    '',
+    commitList,
+    '',
+    '## Testing',
+    '',
+    '_Describe how these changes were tested._'
+  ];
+  return { title, body: body.join('\n') };
+}
+
+// Title and description written by the configured AI provider
+export async function generatePullRequest(
+  changes: BranchChanges,
+  opts: MessageOptions,
+  prTemplate: string | null = null,
+  logger?: Logger
+): Promise<PullRequest> {
+  const session = openProviderSession(opts);
+
+  // The model never sees the unredacted diff
+  const redaction = redactDiff(changes.diff, opts.redact);
+  if (logger) {
+    describeRedactions(redaction).forEach(line => logger.debug(`redacted: ${line}`));
+  }
+  const prompt = buildPrPrompt(changes.summary, redaction.diff, changes.files, {
+    base: changes.base,
+    commits: changes.commits.map(subjectOf),
+    numstat: changes.numstat,
+    prTemplate: prTemplate
+  }, opts.template);
+
+  const result = await withModelFallback(session, model => retry(async () => {
+    const pr = parsePullRequest(await session.provider.generate(prompt, model));
+    if (!pr.title) {
+      throw new APIError('Generated pull request is empty', 'EMPTY_RESPONSE');
+    }
+    return pr;
+  }, CONSTANTS.API_RETRY_ATTEMPTS), logger);
+  return result.value;
+}
+
+// Title, a blank line, then the markdown body
+export function formatPullRequest(pr: PullRequest): string {
+  return pr.body ? `${pr.title}\n\n${pr.body}\n` : `${pr.title}\n`;
+}
@@ -4,18 +4,20 @@ export class Spinner {
   private interval: NodeJS.Timeout | null;
   private chars: string[];
   private index: number;
+  private stream: NodeJS.WriteStream;
 
-  constructor(message: string = 'Processing...') {
+  constructor(message: string = 'Processing...', stream: NodeJS.WriteStream = process.stdout) {
     this.message = message;
     this.interval = null;
     this.chars = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
     this.index = 0;
+    this.stream = stream;
   }
 
   start(): void {
-    process.stdout.write('\x1B[?25l'); // hide cursor
+    this.stream.write('\x1B[?25l'); // hide cursor
     this.interval = setInterval(() => {
-      process.stdout.write(`\r${this.chars[this.index]} ${this.message}`);
+      this.stream.write(`\r${this.chars[this.index]} ${this.message}`);
       this.index = (this.index + 1) % this.chars.length;
     }, 100);
   }
@@ -25,10 +27,10 @@ export class Spinner {
       clearInterval(this.interval);
       this.interval = null;
     }
-    process.stdout.write('\r' + ' '.repeat(process.stdout.columns || 80) + '\r');
-    process.stdout.write('\x1B[?25h'); // show cursor
+    this.stream.write('\r' + ' '.repeat(this.stream.columns || 80) + '\r');
+    this.stream.write('\x1B[?25h'); // show cursor
     if (message) {
-      console.log(message);
+      this.stream.write(`${message}\n`);
     }
   }
 
@@ -83,8 +85,8 @@ export class ProgressBar {
 }
 
 // Create a new spinner
-export function createSpinner(message: string): Spinner {
-  return new Spinner(message);
+export function createSpinner(message: string, stream: NodeJS.WriteStream = process.stdout): Spinner {
+  return new Spinner(message, stream);
 }
 
 // Create a new progress bar
@@ -92,9 +94,19 @@ export function createProgressBar(total: number, message: string): ProgressBar {
   return new ProgressBar(total, message);
 }
 
-// Run async function with a spinner
-export async function withProgress<T>(message: string, fn: () => Promise<T>): Promise<T> {
-  const spinner = createSpinner(message);
+// Runs one labelled step of a longer job, e.g. withProgress
+export type Step = <T>(message: string, fn: () => Promise<T>) => Promise<T>;
+
+// Run a step without a spinner (git hooks, library callers)
+export const quietStep: Step = (message, fn) => fn();
+
+// Run async function with a spinner (on stderr when stdout carries output)
+export async function withProgress<T>(
+  message: string,
+  fn: () => Promise<T>,
+  stream: NodeJS.WriteStream = process.stdout
+): Promise<T> {
+  const spinner = createSpinner(message, stream);
   spinner.start();
   try {
     const result = await fn();
@@ -0,0 +1,245 @@
+// LLM providers - Gemini, OpenAI-compatible endpoints (OpenAI, Ollama, vLLM) and Anthropic
+
+import * as http from 'http';
+import * as https from 'https';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { APIError, ValidationError } from './errors';
+import CONSTANTS from './constants';
+
+export type ProviderName = typeof CONSTANTS.PROVIDERS[number];
+
+export interface ProviderSettings {
+  apiKey?: string | null;
+  baseUrl?: string | null;
+}
+
+export interface Provider {
+  readonly name: ProviderName;
+  generate(prompt: string, model: string): Promise<string>;
+}
+
+// Check that a string names a supported provider
+export function isProviderName(name: unknown): name is ProviderName {
+  return typeof name === 'string' && (CONSTANTS.PROVIDERS as readonly string[]).includes(name);
+}
+
+// Validate a provider name from config, env or flags
+export function parseProviderName(name: string): ProviderName {
+  const normalized = name.trim().toLowerCase();
+  if (!isProviderName(normalized)) {
+    throw new ValidationError(
+      `Unknown provider "${name}". Supported providers: ${CONSTANTS.PROVIDERS.join(', ')}`,
+      'provider'
+    );
+  }
+  return normalized;
+}
+
+// Local and self-hosted endpoints usually run without authentication
+export function providerNeedsApiKey(name: ProviderName, baseUrl?: string | null): boolean {
+  if (name === 'ollama') return false;
+  if (name === 'openai' && baseUrl && baseUrl !== CONSTANTS.DEFAULT_BASE_URLS.openai) return false;
+  return true;
+}
+
+// Default base URL for HTTP providers (Gemini uses its SDK)
+export function getDefaultBaseUrl(name: ProviderName): string | null {
+  if (name === 'gemini') return null;
+  return CONSTANTS.DEFAULT_BASE_URLS[name];
+}
+
+// Map HTTP status codes onto the error codes used by the generation loop
+function errorCodeForStatus(status: number): string {
+  if (status === 401 || status === 403) return 'INVALID_API_KEY';
+  if (status === 404) return 'MODEL_NOT_FOUND';
+  if (status === 429) return 'QUOTA_EXCEEDED';
+  return 'API_ERROR';
+}
+
+// Error body most HTTP APIs send ({ "error": { "message": ... } } or { "error": "..." })
+interface ErrorResponse {
+  error?: string | { message?: string };
+}
+
+// OpenAI chat completions response, as far as it is read here
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: unknown } }>;
+}
+
+// Anthropic Messages API response, as far as it is read here
+interface AnthropicResponse {
+  content?: Array<{ type?: string; text?: unknown } | null>;
+}
+
+// Best description of what went wrong in an error response
+function describeError(parsed: unknown): unknown {
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+  const { error } = parsed as ErrorResponse;
+  if (error && typeof error === 'object' && error.message) {
+    return error.message;
+  }
+  return error || null;
+}
+
+// POST a JSON body and parse the JSON response; callers check its shape
+function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch (error) {
+      reject(new ValidationError(`Invalid base URL: ${url}`, 'baseUrl'));
+      return;
+    }
+
+    const transport = target.protocol === 'http:' ? http : https;
+    const payload = JSON.stringify(body);
+
+    const req = transport.request(target, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'content-length': Buffer.byteLength(payload),
+        ...headers
+      },
+      timeout: CONSTANTS.API_TIMEOUT
+    }, (res) => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => { data += chunk; });
+      res.on('end', () => {
+        const status = res.statusCode || 0;
+        let parsed: unknown = null;
+        try {
+          parsed = data ? JSON.parse(data) : null;
+        } catch (error) {
+          // Non-JSON body, reported below
+        }
+
+        if (status >= 400) {
+          const detail = describeError(parsed) || data.trim() || res.statusMessage || 'request failed';
+          reject(new APIError(`${status} ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`, errorCodeForStatus(status)));
+          return;
+        }
+        if (parsed === null) {
+          reject(new APIError(`Invalid response from ${target.host}`, 'INVALID_RESPONSE'));
+          return;
+        }
+        resolve(parsed);
+      });
+    });
+
+    req.on('timeout', () => {
+      req.destroy(new Error(`timed out after ${CONSTANTS.API_TIMEOUT}ms`));
+    });
+    req.on('error', (err) => {
+      reject(new APIError(`Request to ${target.host} failed: ${err.message}`, 'NETWORK_ERROR', err));
+    });
+
+    req.write(payload);
+    req.end();
+  });
+}
+
+function joinUrl(baseUrl: string, endpoint: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${endpoint}`;
+}
+
+// Google Gemini via the official SDK
+export class GeminiProvider implements Provider {
+  readonly name = 'gemini' as const;
+  private apiKey: string;
+
+  constructor(settings: ProviderSettings) {
+    this.apiKey = settings.apiKey || '';
+  }
+
+  async generate(prompt: string, model: string): Promise<string> {
+    const genAI = new GoogleGenerativeAI(this.apiKey);
+    const geminiModel = genAI.getGenerativeModel({ model: model });
+    const result = await geminiModel.generateContent(prompt);
+    const response = await result.response;
+    return response.text();
+  }
+}
+
+// Any endpoint speaking the OpenAI chat completions API (OpenAI, Ollama, vLLM, LM Studio)
+export class OpenAICompatibleProvider implements Provider {
+  readonly name: 'openai' | 'ollama';
+  private apiKey: string | null;
+  private baseUrl: string;
+
+  constructor(name: 'openai' | 'ollama', settings: ProviderSettings) {
+    this.name = name;
+    this.apiKey = settings.apiKey || null;
+    this.baseUrl = settings.baseUrl || CONSTANTS.DEFAULT_BASE_URLS[name];
+  }
+
+  async generate(prompt: string, model: string): Promise<string> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers.authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await postJson(joinUrl(this.baseUrl, 'chat/completions'), {
+      model: model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.2
+    }, headers);
+
+    const choices = (response as ChatCompletionResponse | null)?.choices;
+    const content = Array.isArray(choices) ? choices[0]?.message?.content : undefined;
+    if (typeof content !== 'string') {
+      throw new APIError('Unexpected response format from chat completions endpoint', 'INVALID_RESPONSE');
+    }
+    return content;
+  }
+}
+
+// Anthropic Messages API
+export class AnthropicProvider implements Provider {
+  readonly name = 'anthropic' as const;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(settings: ProviderSettings) {
+    this.apiKey = settings.apiKey || '';
+    this.baseUrl = settings.baseUrl || CONSTANTS.DEFAULT_BASE_URLS.anthropic;
+  }
+
+  async generate(prompt: string, model: string): Promise<string> {
+    const response = await postJson(joinUrl(this.baseUrl, 'messages'), {
+      model: model,
+      max_tokens: CONSTANTS.API_MAX_OUTPUT_TOKENS,
+      messages: [{ role: 'user', content: prompt }]
+    }, {
+      'x-api-key': this.apiKey,
+      'anthropic-version': CONSTANTS.ANTHROPIC_API_VERSION
+    });
+
+    const content = (response as AnthropicResponse | null)?.content;
+    const blocks = Array.isArray(content) ? content : [];
+    const text = blocks
+      .map(block => (block && block.type === 'text' && typeof block.text === 'string' ? block.text : ''))
+      .join('');
+    if (!text && blocks.length === 0) {
+      throw new APIError('Unexpected response format from Anthropic API', 'INVALID_RESPONSE');
+    }
+    return text;
+  }
+}
+
+// Create a provider instance by name
+export function createProvider(name: ProviderName, settings: ProviderSettings = {}): Provider {
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider(settings);
+    case 'openai':
+    case 'ollama':
+      return new OpenAICompatibleProvider(name, settings);
+    case 'anthropic':
+      return new AnthropicProvider(settings);
+  }
+}
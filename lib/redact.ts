@@ -0,0 +1,199 @@
+// Redaction - mask secrets in diffs before they leave the machine
+
+import { createIgnoreMatcher } from './ignore';
+import { ConfigError } from './errors';
+import CONSTANTS from './constants';
+
+export interface RedactConfig {
+  patterns?: string[]; // extra regular expressions; the whole match is masked
+  blockPaths?: string[]; // gitignore-style paths whose content is never sent
+}
+
+export interface Redaction {
+  kind: string; // e.g. "AWS access key"
+  path: string | null;
+}
+
+export interface RedactionResult {
+  diff: string;
+  redactions: Redaction[];
+  withheld: string[]; // paths on the block list
+}
+
+interface SecretRule {
+  kind: string;
+  regex: RegExp;
+  group?: number; // mask only this capture group (the one before it is the prefix)
+  assignment?: boolean; // "key = value" rules, where an unquoted word is a reference
+}
+
+const SECRET_RULES: SecretRule[] = [
+  { kind: 'AWS access key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { kind: 'Slack token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'Google API key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'API key', regex: /\b(?:sk|rk)[-_](?:live[-_]|test[-_]|ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'JWT', regex: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+  { kind: 'connection string password', regex: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)([^\s@/]+)(?=@)/gi, group: 2 },
+  {
+    kind: 'secret value',
+    regex: /((?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|auth)[A-Za-z0-9_]*["']?\s*[:=]\s*["']?)([^\s"',;`]{6,})/gi,
+    group: 2,
+    assignment: true
+  }
+];
+
+const PRIVATE_KEY_BEGIN = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/;
+
+// Values that name a secret rather than contain one
+function isPlaceholder(value: string): boolean {
+  return /[()]/.test(value) ||
+    /^(process\.env|os\.environ|env\.|config\.|settings\.|\$|%|<|\{\{|null$|undefined$|true$|false$)/i.test(value) ||
+    /^(x+|\*+|\.+|changeme|redacted|example|placeholder|your[_-].*)$/i.test(value);
+}
+
+// Shannon entropy in bits per character
+export function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) {
+    counts.set(ch, (counts.get(ch) || 0) + 1);
+  }
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+// Random-looking tokens: long, mixed case and digits, and too varied to be hex.
+// Lockfile integrity hashes look random but are public.
+function isHighEntropyToken(token: string): boolean {
+  return token.length >= CONSTANTS.REDACT_MIN_TOKEN_LENGTH &&
+    !/^sha(1|256|384|512)-/.test(token) &&
+    /[a-z]/.test(token) && /[A-Z]/.test(token) && /[0-9]/.test(token) &&
+    entropy(token) >= CONSTANTS.REDACT_MIN_ENTROPY;
+}
+
+// Compile custom patterns, naming the bad one
+export function compilePatterns(patterns: string[] = []): RegExp[] {
+  return patterns.map(source => {
+    try {
+      return new RegExp(source, 'g');
+    } catch (error) {
+      throw new ConfigError(`Invalid redact pattern ${JSON.stringify(source)}: ${(error as Error).message}`);
+    }
+  });
+}
+
+// Mask secrets in one line of diff content
+function redactLine(line: string, custom: RegExp[], found: (kind: string) => void): string {
+  let out = line;
+  for (const rule of SECRET_RULES) {
+    out = out.replace(rule.regex, (match: string, ...groups: unknown[]) => {
+      if (rule.group === undefined) {
+        found(rule.kind);
+        return `[REDACTED ${rule.kind}]`;
+      }
+      const prefix = groups[rule.group - 2] as string;
+      const value = groups[rule.group - 1] as string;
+      // Unquoted words are identifiers and types ("tokenBudget: number"), not values
+      const reference = rule.assignment && !/["']$/.test(prefix) && /^[A-Za-z_][\w.]*$/.test(value);
+      if (isPlaceholder(value) || reference) {
+        return match;
+      }
+      found(rule.kind);
+      return match.slice(0, match.length - value.length) + `[REDACTED ${rule.kind}]`;
+    });
+  }
+  for (const regex of custom) {
+    out = out.replace(regex, (match: string) => {
+      if (!match) return match;
+      found('custom pattern');
+      return '[REDACTED custom pattern]';
+    });
+  }
+  return out.replace(/[A-Za-z0-9+/_=-]+/g, (token) => {
+    if (!isHighEntropyToken(token)) return token;
+    found('high-entropy string');
+    return '[REDACTED high-entropy string]';
+  });
+}
+
+// Mask likely secrets in a unified diff and withhold files on the block list.
+// Only hunk content is touched; file headers pass through unchanged.
+export function redactDiff(diff: string, config: RedactConfig = {}): RedactionResult {
+  const blocked = createIgnoreMatcher([...CONSTANTS.REDACT_BLOCK_PATHS, ...(config.blockPaths || [])]);
+  const custom = compilePatterns(config.patterns);
+  const redactions: Redaction[] = [];
+  const withheld: string[] = [];
+
+  const out: string[] = [];
+  let currentPath: string | null = null;
+  let inHunk = false;
+  let skipping = false;
+  let inPrivateKey = false;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const m = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+      currentPath = m ? m[2] : null;
+      inHunk = false;
+      inPrivateKey = false;
+      skipping = !!currentPath && blocked.ignores(currentPath);
+      out.push(line);
+      if (skipping && currentPath) {
+        withheld.push(currentPath);
+        out.push('[Content withheld: path is on the redaction block list]');
+      }
+      continue;
+    }
+    // Section titles and budget notes end the current file
+    if (line.startsWith('=== ') || line.startsWith('[Diff omitted ')) {
+      currentPath = null;
+      inHunk = false;
+      inPrivateKey = false;
+      skipping = false;
+    }
+    if (skipping) {
+      continue;
+    }
+    if (line.startsWith('@@')) {
+      inHunk = true;
+      inPrivateKey = false;
+    }
+    if (!inHunk) {
+      out.push(line);
+      continue;
+    }
+
+    // Private key blocks are masked as a whole
+    if (inPrivateKey) {
+      if (PRIVATE_KEY_END.test(line)) inPrivateKey = false;
+      continue;
+    }
+    if (PRIVATE_KEY_BEGIN.test(line)) {
+      inPrivateKey = !PRIVATE_KEY_END.test(line);
+      redactions.push({ kind: 'private key', path: currentPath });
+      out.push(`${line.charAt(0)}[REDACTED private key]`);
+      continue;
+    }
+
+    out.push(redactLine(line, custom, kind => redactions.push({ kind, path: currentPath })));
+  }
+
+  return { diff: out.join('\n'), redactions, withheld };
+}
+
+// One line per kind and file, e.g. "2 x AWS access key in src/aws.ts"
+export function describeRedactions(result: RedactionResult): string[] {
+  const counts = new Map<string, number>();
+  for (const r of result.redactions) {
+    const key = `${r.kind} in ${r.path || 'diff'}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  const lines = Array.from(counts.entries()).map(([key, n]) => (n > 1 ? `${n} x ${key}` : key));
+  result.withheld.forEach(p => lines.push(`${p} withheld (block list)`));
+  return lines;
+}
@@ -0,0 +1,174 @@
+// Reword - rewrite the messages of existing commits with a scripted git rebase
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runGit } from './utils';
+import { GitError, ValidationError } from './errors';
+import { getHead, getCommitMessages } from './git';
+
+export interface RewordCommit {
+  sha: string;
+  parents: string[];
+  message: string;
+}
+
+export interface RewordPlan {
+  commits: RewordCommit[]; // oldest first
+  base: string | null; // rebase onto this; null rewrites from the root commit
+  replayed: number; // commits the rebase rewrites, including newer ones outside the range
+  merges: string[]; // merge commits among the replayed ones
+  published: string[]; // remote branches that already contain the oldest commit
+}
+
+// Parse `git rev-list --parents` output
+function parseRevList(output: string): Array<{ sha: string; parents: string[] }> {
+  return output.split('\n').filter(Boolean).map((line) => {
+    const [sha, ...parents] = line.trim().split(/\s+/);
+    return { sha, parents };
+  });
+}
+
+// Exit status of a git command that answers yes/no
+function runGitStatus(args: string[]): number {
+  try {
+    runGit(args);
+    return 0;
+  } catch (error) {
+    return 1;
+  }
+}
+
+// True while a rebase, merge or cherry-pick is stopped in this repository
+function operationInProgress(): boolean {
+  return ['rebase-merge', 'rebase-apply', 'MERGE_HEAD', 'CHERRY_PICK_HEAD'].some((name) => {
+    const file = runGit(['rev-parse', '--git-path', name]).stdout.trim();
+    return fs.existsSync(file);
+  });
+}
+
+// Work out what rewording `range` ("origin/main..HEAD", "HEAD~3..") involves
+export function planReword(range: string): RewordPlan {
+  const head = getHead();
+  if (!head) {
+    throw new GitError('Nothing to reword. The branch has no commits yet.');
+  }
+  let listed: Array<{ sha: string; parents: string[] }>;
+  try {
+    listed = parseRevList(runGit(['rev-list', '--reverse', '--parents', range, '--']).stdout);
+  } catch (error) {
+    throw new ValidationError(`Invalid commit range "${range}": ${(error as Error).message}`, 'range');
+  }
+  if (listed.length === 0) {
+    throw new ValidationError(`No commits in range "${range}"`, 'range');
+  }
+
+  // Rebase can only rewrite commits on the current branch
+  const outside = listed.find(c => runGitStatus(['merge-base', '--is-ancestor', c.sha, head]) !== 0);
+  if (outside) {
+    throw new ValidationError(`Commit ${outside.sha.slice(0, 7)} in "${range}" is not on the current branch`, 'range');
+  }
+
+  const messages = new Map(getCommitMessages(range).map(c => [c.sha, c.message]));
+  const oldest = listed[0];
+  const base = oldest.parents[0] || null;
+  const replayed = parseRevList(runGit(['rev-list', '--parents', base ? `${base}..HEAD` : 'HEAD', '--']).stdout);
+  const published = runGit(['for-each-ref', '--format=%(refname:short)', '--contains', oldest.sha, 'refs/remotes'])
+    .stdout.split('\n').map(line => line.trim()).filter(ref => ref && !ref.endsWith('/HEAD'));
+
+  return {
+    commits: listed.map(c => ({ sha: c.sha, parents: c.parents, message: messages.get(c.sha) || '' })),
+    base: base,
+    replayed: replayed.length,
+    merges: replayed.filter(c => c.parents.length > 1).map(c => c.sha),
+    published: published
+  };
+}
+
+// Refuse to rewrite history others may have, or that a rebase would flatten
+export function checkRewordSafety(plan: RewordPlan, force: boolean = false): void {
+  if (operationInProgress()) {
+    throw new GitError('A rebase, merge or cherry-pick is in progress. Finish or abort it first.');
+  }
+  const dirty = runGit(['status', '--porcelain', '--untracked-files=no']).stdout.trim();
+  if (dirty) {
+    throw new GitError('Commit or stash your changes before rewording.');
+  }
+  if (force) {
+    return;
+  }
+  if (plan.published.length) {
+    throw new GitError(
+      `The range is already published (${plan.published.join(', ')}). Rewording it rewrites shared history; use --force to do it anyway.`
+    );
+  }
+  if (plan.merges.length) {
+    throw new GitError(
+      `The commits to rewrite include ${plan.merges.length} merge commit(s). Use --force to reword them with git rebase --rebase-merges.`
+    );
+  }
+}
+
+// Save the branch tip under refs/gcm/backup/<branch> before rewriting it
+export function backupRef(): string {
+  let branch = 'HEAD';
+  try {
+    branch = runGit(['symbolic-ref', '--short', '-q', 'HEAD']).stdout.trim() || branch;
+  } catch (error) {
+    // Detached HEAD
+  }
+  const ref = `refs/gcm/backup/${branch}`;
+  runGit(['update-ref', '--create-reflog', '-m', 'gcm reword: backup', ref, 'HEAD']);
+  return ref;
+}
+
+// Sequence editor for the rebase: after each commit being reworded, add an
+// exec line that amends it with the reviewed message
+function buildTodoEditor(files: Record<string, string>): string {
+  return `const fs = require('fs');
+const files = ${JSON.stringify(files)};
+const todo = process.argv[2];
+const lines = fs.readFileSync(todo, 'utf8').split('\\n').flatMap((line) => {
+  const m = line.match(/^(?:pick|merge -[cC]) ([0-9a-f]+)/);
+  const sha = m && Object.keys(files).find(s => s.startsWith(m[1]));
+  return sha ? [line, 'exec git commit --amend --allow-empty --no-verify -F ' + JSON.stringify(files[sha])] : [line];
+});
+fs.writeFileSync(todo, lines.join('\\n'));
+`;
+}
+
+// Rewrite the commits with new messages (sha -> message) by driving
+// git rebase -i non-interactively. On failure the rebase is aborted, which
+// puts the branch back where it was.
+export function applyReword(plan: RewordPlan, messages: Map<string, string>): number {
+  const changed = plan.commits.filter(c => messages.has(c.sha) && messages.get(c.sha) !== c.message);
+  if (changed.length === 0) {
+    return 0;
+  }
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gcm-reword-'));
+  try {
+    const files: Record<string, string> = {};
+    changed.forEach((c, index) => {
+      files[c.sha] = path.join(dir, `message-${index + 1}.txt`);
+      fs.writeFileSync(files[c.sha], `${(messages.get(c.sha) as string).trim()}\n`);
+    });
+    const editor = path.join(dir, 'todo-editor.js');
+    fs.writeFileSync(editor, buildTodoEditor(files));
+
+    const args = ['-c', 'rebase.abbreviateCommands=false', 'rebase', '-i', '--no-autosquash'];
+    if (plan.merges.length) args.push('--rebase-merges');
+    args.push(plan.base || '--root');
+    try {
+      runGit(args, {
+        env: { ...process.env, GIT_SEQUENCE_EDITOR: `"${process.execPath}" "${editor}"`, GIT_EDITOR: 'true' }
+      });
+    } catch (error) {
+      runGitStatus(['rebase', '--abort']);
+      throw new GitError(`Reword failed, the branch was left unchanged: ${(error as Error).message}`, error as Error);
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  return changed.length;
+}
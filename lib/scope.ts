@@ -0,0 +1,197 @@
+// Scope inference - map changed files to workspace packages or configured scopes
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getRepoRoot } from './config';
+import { createIgnoreMatcher } from './ignore';
+
+// What to do when a change touches several scopes
+export type ScopePolicy = 'multi' | 'none';
+
+export interface ScopeOptions {
+  scopeMap?: Record<string, string>; // gitignore-style path -> scope
+  scopePolicy?: ScopePolicy;
+  scopes?: string[]; // allowed scopes; others are never suggested
+}
+
+export interface WorkspacePackage {
+  name: string; // package.json name, e.g. "@acme/api"
+  dir: string; // relative to the repository root
+  scope: string; // e.g. "api"
+}
+
+const workspaceCache = new Map<string, WorkspacePackage[]>();
+
+function readJson(file: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+// "packages:" list items from pnpm-workspace.yaml (the only part gcm needs)
+function readPnpmWorkspace(root: string): string[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(path.join(root, 'pnpm-workspace.yaml'), 'utf8');
+  } catch (error) {
+    return [];
+  }
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of text.split(/\r?\n/)) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+    } else if (inPackages && /^\s*-\s*/.test(line)) {
+      patterns.push(line.replace(/^\s*-\s*/, '').replace(/\s+#.*$/, '').replace(/^['"]|['"]$/g, '').trim());
+    } else if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+  return patterns.filter(Boolean);
+}
+
+// Workspace globs from package.json (npm/yarn), pnpm-workspace.yaml or lerna.json
+export function getWorkspacePatterns(root: string): string[] {
+  const pkg = readJson(path.join(root, 'package.json'));
+  const workspaces = pkg && pkg.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces.filter((w): w is string => typeof w === 'string');
+  }
+  if (workspaces && typeof workspaces === 'object' && Array.isArray((workspaces as { packages?: unknown }).packages)) {
+    return ((workspaces as { packages: unknown[] }).packages).filter((w): w is string => typeof w === 'string');
+  }
+
+  const pnpm = readPnpmWorkspace(root);
+  if (pnpm.length) {
+    return pnpm;
+  }
+
+  const lerna = readJson(path.join(root, 'lerna.json'));
+  if (lerna && Array.isArray(lerna.packages)) {
+    return lerna.packages.filter((w): w is string => typeof w === 'string');
+  }
+
+  // A plain packages/* layout without a workspace manager
+  return fs.existsSync(path.join(root, 'packages')) ? ['packages/*'] : [];
+}
+
+// Expand "packages/*", "apps/**" or "tools/cli" into directories
+function expandPattern(root: string, pattern: string): string[] {
+  const parts = pattern.replace(/^\.\//, '').replace(/\/$/, '').split('/');
+  let dirs = [''];
+  for (const part of parts) {
+    const next: string[] = [];
+    for (const dir of dirs) {
+      const abs = path.join(root, dir);
+      if (part === '*' || part === '**') {
+        const children = listDirs(abs).map(child => path.posix.join(dir, child));
+        next.push(...children);
+        // "**" also matches nested packages, one more level is enough in practice
+        if (part === '**') {
+          children.forEach(child => next.push(...listDirs(path.join(root, child)).map(c => path.posix.join(child, c))));
+        }
+      } else if (part.includes('*')) {
+        const regex = new RegExp(`^${part.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`);
+        next.push(...listDirs(abs).filter(child => regex.test(child)).map(child => path.posix.join(dir, child)));
+      } else {
+        next.push(path.posix.join(dir, part));
+      }
+    }
+    dirs = next;
+  }
+  return dirs;
+}
+
+function listDirs(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+      .map(entry => entry.name);
+  } catch (error) {
+    return [];
+  }
+}
+
+// "@acme/API_Server" -> "api_server"; scopes must be lowercase and simple
+export function toScope(name: string): string {
+  return name.replace(/^@[^/]+\//, '').toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[^a-z0-9]+/, '');
+}
+
+// Packages of the workspace at `root` (cached per root)
+export function getWorkspacePackages(root: string): WorkspacePackage[] {
+  if (!workspaceCache.has(root)) {
+    const patterns = getWorkspacePatterns(root);
+    const excluded = createIgnoreMatcher(patterns.filter(p => p.startsWith('!')).map(p => p.slice(1)));
+    const packages = new Map<string, WorkspacePackage>();
+    for (const pattern of patterns.filter(p => !p.startsWith('!'))) {
+      for (const dir of expandPattern(root, pattern)) {
+        if (packages.has(dir) || excluded.ignores(dir)) continue;
+        // Directories without a package.json still count (non-JS packages)
+        const pkg = readJson(path.join(root, dir, 'package.json'));
+        const name = pkg && typeof pkg.name === 'string' ? pkg.name : path.posix.basename(dir);
+        packages.set(dir, { name, dir, scope: toScope(name) });
+      }
+    }
+    workspaceCache.set(root, Array.from(packages.values()));
+  }
+  return workspaceCache.get(root) as WorkspacePackage[];
+}
+
+// Scopes for one changed path: the most specific scopeMap entry, then the
+// package containing it. An untracked directory ("packages/") yields the
+// scopes of every package inside it.
+export function scopesForPath(file: string, scopeMap: Record<string, string>, packages: WorkspacePackage[]): string[] {
+  const mapped = Object.keys(scopeMap)
+    .filter(key => createIgnoreMatcher([key]).ignores(file))
+    .sort((a, b) => b.length - a.length)[0];
+  if (mapped) {
+    return [scopeMap[mapped]];
+  }
+  const pkg = packages
+    .filter(p => file === p.dir || file.startsWith(`${p.dir}/`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+  if (pkg) {
+    return [pkg.scope];
+  }
+  return file.endsWith('/') ? packages.filter(p => p.dir.startsWith(file)).map(p => p.scope) : [];
+}
+
+// All scopes touched by these files, most files first. Files outside any
+// package (root configs, lockfiles) don't count.
+export function collectScopes(files: string[], options: ScopeOptions = {}, cwd: string = process.cwd()): string[] {
+  const scopeMap = options.scopeMap || {};
+  const root = getRepoRoot(cwd);
+  const packages = root ? getWorkspacePackages(root) : [];
+  if (packages.length === 0 && Object.keys(scopeMap).length === 0) {
+    return [];
+  }
+
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    for (const scope of scopesForPath(file, scopeMap, packages)) {
+      counts.set(scope, (counts.get(scope) || 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([scope]) => scope);
+}
+
+// The scope to use for these files: one scope, "api,web" under the multi
+// policy, or null when there is no single answer
+export function inferScope(files: string[], options: ScopeOptions = {}, cwd: string = process.cwd()): string | null {
+  const scopes = collectScopes(files, options, cwd);
+  const allowed = options.scopes || [];
+  if (allowed.length && scopes.some(s => !allowed.includes(s))) {
+    return null;
+  }
+  if (scopes.length === 1) {
+    return scopes[0];
+  }
+  if (scopes.length > 1 && options.scopePolicy === 'multi') {
+    return scopes.slice().sort().join(',');
+  }
+  return null;
+}
@@ -0,0 +1,231 @@
+// Split-commit planner - groups working tree changes into atomic commits
+
+import * as path from 'path';
+import { GitError } from './errors';
+import { WorkingChange, getHead, writeIndexTree, readIndexTree, resetIndex, resetSoft, stageFiles, applyToIndex, commit } from './git';
+import { StatusSummary, summarizeChanges } from './message';
+import { DiffHunk, FileDiff, renderFile } from './budget';
+import { partitionIgnored } from './ignore';
+
+export type GroupKind = 'style' | 'docs' | 'test' | 'build' | 'ci' | 'code';
+
+export interface SplitGroup {
+  kind: GroupKind;
+  scope: string | null; // top-level directory for code groups
+  changes: WorkingChange[];
+  partial: Record<string, FileDiff>; // files committed only in part: these hunks
+  message: string;
+}
+
+export interface SplitResult {
+  commits: number;
+}
+
+// Commit type used for each kind of group in fallback messages
+const KIND_TYPES: Record<GroupKind, string> = {
+  style: 'style',
+  docs: 'docs',
+  test: 'test',
+  build: 'build',
+  ci: 'ci',
+  code: 'feat'
+};
+
+// Commit order: formatting first (later groups stage the rest of a partly
+// committed file), then dependencies and tooling, docs last
+const KIND_ORDER: GroupKind[] = ['style', 'build', 'ci', 'code', 'test', 'docs'];
+
+const BUILD_FILES = new Set([
+  'package.json', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'npm-shrinkwrap.json',
+  'tsconfig.json', 'Makefile', 'Dockerfile', '.npmrc', '.nvmrc', 'Cargo.toml', 'Cargo.lock',
+  'go.mod', 'go.sum', 'requirements.txt', 'pyproject.toml'
+]);
+
+function isTestFile(filePath: string): boolean {
+  return /(^|\/)(__tests__|tests?|spec)\//.test(filePath) || /\.(test|spec)\.[^/]+$/.test(filePath);
+}
+
+function isDocsFile(filePath: string): boolean {
+  return /^docs?\//.test(filePath) || /\.(md|mdx|rst|adoc)$/i.test(filePath) || /^(LICENSE|CHANGELOG|AUTHORS)/i.test(path.basename(filePath));
+}
+
+// Classify a path into a group kind
+export function classifyPath(filePath: string): GroupKind {
+  if (/^\.(github|gitlab|circleci)\//.test(filePath) || filePath === '.gitlab-ci.yml' || filePath === '.travis.yml') {
+    return 'ci';
+  }
+  if (BUILD_FILES.has(path.basename(filePath))) {
+    return 'build';
+  }
+  if (isTestFile(filePath)) {
+    return 'test';
+  }
+  if (isDocsFile(filePath)) {
+    return 'docs';
+  }
+  return 'code';
+}
+
+// "lib/foo.ts" -> "lib", root files -> null
+function topLevelDir(filePath: string): string | null {
+  const parts = filePath.split('/');
+  return parts.length > 1 ? parts[0] : null;
+}
+
+// "__tests__/cache.test.js" -> "cache"
+function moduleName(filePath: string): string {
+  return path.basename(filePath).replace(/\.(test|spec)(?=\.)/, '').replace(/\.[^.]+$/, '');
+}
+
+// Relative modules a diff imports or requires: "require('../lib/cache')" -> "cache"
+function importedModules(file: FileDiff): string[] {
+  const pattern = /(?:\bfrom\s+|\brequire\(\s*|\bimport\s*\(?\s*)['"](\.{1,2}\/[^'"]+)['"]/g;
+  const names: string[] = [];
+  for (const line of file.hunks.flatMap(h => h.lines)) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line)) !== null) {
+      names.push(moduleName(match[1]));
+    }
+  }
+  return names;
+}
+
+// A hunk that only changes whitespace: reindenting, trailing spaces, blank lines
+export function isFormattingHunk(hunk: DiffHunk): boolean {
+  const side = (sign: string) => hunk.lines.filter(l => l.startsWith(sign)).map(l => l.slice(1)).join('').replace(/\s+/g, '');
+  return hunk.lines.some(l => l.startsWith('+') || l.startsWith('-')) && side('-') === side('+');
+}
+
+// Group changes by kind and directory, reading their diffs when given:
+// whitespace-only hunks become a formatting commit of their own (a file with
+// other changes too is split by hunk), and tests join the code group of the
+// module they cover, by name or by what they import
+export function groupChanges(changes: WorkingChange[], diffs: FileDiff[] = []): SplitGroup[] {
+  const groups = new Map<string, SplitGroup>();
+  const add = (kind: GroupKind, scope: string | null, change: WorkingChange, partial?: FileDiff) => {
+    const key = `${kind}:${scope || ''}`;
+    if (!groups.has(key)) {
+      groups.set(key, { kind, scope, changes: [], partial: {}, message: '' });
+    }
+    const group = groups.get(key) as SplitGroup;
+    group.changes.push(change);
+    if (partial) group.partial[change.path] = partial;
+  };
+  const diffOf = new Map(diffs.map(d => [d.path, d]));
+
+  const codeByModule = new Map<string, string | null>();
+  for (const change of changes) {
+    if (classifyPath(change.path) === 'code') {
+      codeByModule.set(moduleName(change.path), topLevelDir(change.path));
+    }
+  }
+
+  for (const change of changes) {
+    const diff = diffOf.get(change.path);
+    // Only plain content changes are split; modes and renames stay whole
+    if (change.status === 'modified' && diff && !diff.binary && diff.header.length === 3) {
+      const formatting = diff.hunks.filter(isFormattingHunk);
+      if (formatting.length > 0 && formatting.length === diff.hunks.length) {
+        add('style', null, change);
+        continue;
+      }
+      if (formatting.length > 0) {
+        add('style', null, change, { ...diff, hunks: formatting });
+      }
+    }
+
+    const kind = classifyPath(change.path);
+    const covered = kind === 'test'
+      ? [moduleName(change.path), ...(diff ? importedModules(diff) : [])].find(name => codeByModule.has(name))
+      : undefined;
+    if (kind === 'code') {
+      add('code', topLevelDir(change.path), change);
+    } else if (covered !== undefined) {
+      add('code', codeByModule.get(covered) || null, change);
+    } else {
+      add(kind, null, change);
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => {
+    const order = KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind);
+    return order !== 0 ? order : (a.scope || '').localeCompare(b.scope || '');
+  });
+}
+
+// All paths git needs to stage for a group (renames include the old path)
+export function groupPaths(group: SplitGroup): string[] {
+  const paths = new Set<string>();
+  for (const change of group.changes) {
+    paths.add(change.path);
+    if (change.oldPath) paths.add(change.oldPath);
+  }
+  return Array.from(paths);
+}
+
+// The diff a group commits: whole files, or only the chosen hunks of a file
+// committed in part; paths matching `ignore` are left out
+export function groupDiff(group: SplitGroup, diffs: FileDiff[], ignore: string[] = []): string {
+  const diffOf = new Map(diffs.map(d => [d.path, d]));
+  const { kept } = partitionIgnored(group.changes.map(c => c.path), ignore);
+  return kept
+    .map(p => group.partial[p] || diffOf.get(p))
+    .filter((file): file is FileDiff => !!file)
+    .map(file => renderFile(file))
+    .join('\n');
+}
+
+// StatusSummary covering only this group, for prompt building and simple messages
+export function summarizeGroup(group: SplitGroup, branch: string | null): StatusSummary {
+  return summarizeChanges(group.changes, branch);
+}
+
+// Fallback message when no AI is available: "docs: update README.md"
+export function buildGroupMessage(group: SplitGroup): string {
+  const type = KIND_TYPES[group.kind];
+  const scope = group.scope ? `(${group.scope})` : '';
+  const files = group.changes.map(c => path.basename(c.path));
+  const allAdded = group.changes.every(c => c.status === 'added' || c.status === 'untracked');
+  const allDeleted = group.changes.every(c => c.status === 'deleted');
+  const verb = group.kind === 'style' ? 'format' : allAdded ? 'add' : allDeleted ? 'remove' : 'update';
+  const target = files.length <= 3 ? files.join(', ') : `${files.length} files`;
+  return `${type}${scope}: ${verb} ${target}`;
+}
+
+// Stage and commit each group in order, with `git add` for whole files and
+// `git apply --cached` for files committed in part. On failure the branch and
+// index are put back exactly as they were; the working tree is never modified.
+export function applySplitPlan(groups: SplitGroup[], onCommit?: (group: SplitGroup, index: number) => void): SplitResult {
+  const originalHead = getHead();
+  const originalIndex = writeIndexTree();
+  let commits = 0;
+
+  try {
+    resetIndex();
+    groups.forEach((group, index) => {
+      stageFiles(groupPaths(group).filter(p => !group.partial[p]));
+      Object.values(group.partial).forEach(file => applyToIndex(renderFile(file)));
+      commit(group.message);
+      commits += 1;
+      if (onCommit) onCommit(group, index);
+    });
+  } catch (error) {
+    const err = error as Error;
+    try {
+      if (commits > 0) {
+        resetSoft(originalHead);
+      }
+      readIndexTree(originalIndex);
+    } catch (rollbackError) {
+      const rbErr = rollbackError as Error;
+      throw new GitError(
+        `Split failed after ${commits} commit(s) (${err.message}) and rollback failed: ${rbErr.message}. ` +
+        `Restore manually with: git reset --soft ${originalHead || '<none>'} && git read-tree ${originalIndex}`,
+        err
+      );
+    }
+    throw new GitError(`Split failed after ${commits} commit(s), rolled back: ${err.message}`, err);
+  }
+
+  return { commits };
+}
@@ -4,7 +4,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import CONSTANTS from './constants';
+import { TemplateError, ValidationError } from './errors';
+import { render, templateVariables } from './engine';
+import { getNumstat, getRecentCommits, getChangedPaths, NumstatEntry, WorkingChange } from './git';
 import { StatusSummary, MessageOptions } from './message';
+import { GitContext } from './utils';
+import { inferScope } from './scope';
 
 const TEMPLATES_DIR = path.join(os.homedir(), CONSTANTS.CONFIG_DIR_NAME, 'templates');
 
@@ -13,9 +18,26 @@ export const DEFAULT_TEMPLATE = `You are an expert developer writing git commit
 
 Branch: {{branch}}
 Changes: {{changes}}
-{{#if branchStatus}}Branch status: {{branchStatus}}
-{{/if}}Files changed:
-{{files}}
+{{#if branchStatus}}
+Branch status: {{branchStatus}}
+{{/if}}
+Files changed:
+{{#each files}}
+- {{path}} ({{status}}{{#if oldPath}} from {{oldPath}}{{/if}}{{#if stat}}, {{stat}}{{/if}})
+{{/each}}
+{{#if moreFiles}}
+... and {{moreFiles}} more file(s)
+{{/if}}
+{{#if ignoredFiles}}
+- {{ignoredFiles}} generated file(s) changed (not shown)
+{{/if}}
+{{#if recentCommits}}
+
+Recent commit subjects in this repository (match their style):
+{{#each recentCommits}}
+- {{this | truncate 100}}
+{{/each}}
+{{/if}}
 
 {{#if diff}}
 Git diff:
@@ -24,56 +46,303 @@ Git diff:
 No diff available (likely new/untracked files)
 {{/if}}
 
+{{#if currentMessage}}
+The commit currently has this message (it may be a placeholder). Keep what it says about intent that the diff can't show:
+{{currentMessage | indent}}
+
+{{/if}}
+{{#if previousMessage}}
+A previous suggestion for these changes was:
+{{previousMessage | indent}}
+
+{{#if feedback}}
+Rewrite it following this instruction from the user: {{feedback}}
+{{else}}
+The user asked for a different message. Do not repeat the previous suggestion.
+{{/if}}
+
+{{/if}}
 Requirements:
+{{#if conventional}}
 - Use Conventional Commits format (e.g., "feat:", "fix:", "refactor:", "docs:", "style:", "test:", "chore:")
+{{#if scope}}
+- Use the scope "{{scope}}" (derived from the changed packages)
+{{else}}
+{{#if scopes}}
+- If you use a scope, it must be one of: {{scopes | join}}
+{{/if}}
+{{/if}}
+{{else}}
+- Write a plain subject line without a "type:" prefix
+{{/if}}
 - Subject line should be ≤ {{maxSubjectLength}} characters
 - Use present tense, imperative mood (e.g., "Add feature" not "Added feature")
 - Be specific about what changed and why (if clear from diff)
 - If there's a body, wrap at {{maxBodyLength}} characters
 - Focus on the "what" and "why", not just "how"
+{{#if variation}}
+- {{variation}}
+{{/if}}
 
 Generate ONLY the commit message (title and optional body). Do not include any explanations or markdown formatting.`;
 
-interface TemplateData {
+// Appended when a custom template leaves out a regeneration variable that is
+// set, so reword, regenerate and refine still reach the model
+const REVISION_NOTES: Record<'currentMessage' | 'previousMessage' | 'feedback', string> = {
+  currentMessage: `The commit currently has this message (it may be a placeholder). Keep what it says about intent that the diff can't show:
+{{currentMessage | indent}}`,
+  previousMessage: `A previous suggestion for these changes was:
+{{previousMessage | indent}}
+{{#unless feedback}}
+The user asked for a different message. Do not repeat the previous suggestion.
+{{/unless}}`,
+  feedback: 'Rewrite it following this instruction from the user: {{feedback}}'
+};
+
+// Built-in prompt for "gcm pr"
+export const DEFAULT_PR_TEMPLATE = `You are an expert developer writing a pull request. Write a title and description for the changes on branch "{{branch}}", to be merged into "{{base}}".
+
+Commits ({{commitCount}}, oldest first):
+{{#each commits}}
+- {{this | truncate 100}}
+{{/each}}
+
+Files changed ({{fileCount}}, +{{additions}}/-{{deletions}}):
+{{#each files}}
+- {{path}} ({{status}}{{#if oldPath}} from {{oldPath}}{{/if}}{{#if stat}}, {{stat}}{{/if}})
+{{/each}}
+{{#if moreFiles}}
+... and {{moreFiles}} more file(s)
+{{/if}}
+{{#if ignoredFiles}}
+- {{ignoredFiles}} generated file(s) changed (not shown)
+{{/if}}
+
+{{#if diff}}
+Git diff:
+{{diff}}
+{{else}}
+No diff available
+{{/if}}
+
+{{#if prTemplate}}
+The repository has a pull request template. Use its headings and structure and fill in every section. Keep checklist items, but only tick the ones the changes clearly satisfy:
+{{prTemplate | indent}}
+{{else}}
+Use these markdown sections for the description:
+## Summary
+What the change does and why, in a few sentences.
+## Changes
+A bullet list of the notable changes.
+## Testing
+How the change is tested, based only on tests visible in the diff.
+{{/if}}
+
+Requirements:
+- The first line is the title: plain text, imperative mood, ≤ {{maxTitleLength}} characters
+- Then a blank line, then the markdown description
+- Describe only what the commits and diff show; do not invent issues, tests or results
+
+Generate ONLY the title and description, without any explanations.`;
+
+// Prompt for "gcm changelog --ai"
+export const DEFAULT_CHANGELOG_TEMPLATE = `You are an expert developer editing release notes. Rewrite the wording of the changelog below so each entry reads clearly to users of the project.
+
+{{changelog}}
+
+The commits it was built from, with their full messages:
+{{#each commits}}
+---
+{{this}}
+{{/each}}
+
+Requirements:
+- Keep every heading, every entry and its commit hash exactly where it is; do not add, drop, merge or reorder entries
+- Keep the **scope:** prefixes
+- Rewrite each entry as a short, plain sentence fragment; use the commit body only to clarify what the change does
+- Do not invent details that the commits do not state
+
+Generate ONLY the changelog in markdown, without any explanations.`;
+
+export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'untracked';
+
+export interface FileEntry {
+  path: string;
+  status: FileStatus;
+  oldPath: string | null;
+  additions: number | null;
+  deletions: number | null;
+  binary: boolean;
+  stat: string | null; // "+12/-3", "binary" or null when unknown
+}
+
+// Extra repository context that isn't part of StatusSummary
+export interface PromptContext {
+  numstat?: NumstatEntry[];
+  changes?: WorkingChange[]; // every changed path; the summary only keeps samples
+  recentCommits?: string[];
+  previousMessage?: string; // set when regenerating from the review menu
+  currentMessage?: string; // set by reword: the message the commit has now
+  feedback?: string;
+  candidate?: number; // 1-based, when generating several alternatives
+  candidateCount?: number;
+}
+
+export interface TemplateData {
   branch: string;
   changes: string;
-  branchStatus?: string | null;
-  files: string;
-  diff?: string | null;
+  branchStatus: string | null;
+  files: FileEntry[];
+  fileCount: number;
+  moreFiles: number;
+  ignoredFiles: number; // matched by .gcmignore or the ignore setting
+  fileList: string;
+  additions: number;
+  deletions: number;
+  recentCommits: string[];
+  diff: string | null;
+  previousMessage: string | null;
+  currentMessage: string | null;
+  feedback: string | null;
+  candidate: number;
+  candidateCount: number;
+  variation: string | null;
+  stagedOnly: boolean;
+  conventional: boolean;
+  scope: string | null; // inferred from workspace packages or scopeMap
+  scopes: string[];
   maxSubjectLength: number;
   maxBodyLength: number;
 }
 
-// Simple template renderer - handles {{var}} and {{#if}} blocks
-function renderTemplate(template: string, data: TemplateData): string {
-  let result = template;
+// What "gcm pr" knows about the branch
+export interface PrContext {
+  base: string;
+  commits: string[]; // subjects, oldest first
+  numstat?: NumstatEntry[];
+  prTemplate?: string | null; // the repository's pull request template
+}
 
-  // Replace {{var}} with values
-  result = result.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-    const value = (data as any)[key];
-    return value !== undefined ? String(value) : match;
-  });
+export interface PrTemplateData {
+  branch: string;
+  base: string;
+  commits: string[];
+  commitCount: number;
+  files: FileEntry[];
+  fileCount: number;
+  moreFiles: number;
+  ignoredFiles: number;
+  additions: number;
+  deletions: number;
+  diff: string | null;
+  prTemplate: string | null;
+  maxTitleLength: number;
+}
+
+export interface ChangelogTemplateData {
+  changelog: string;
+  commits: string[]; // "<sha> <header>" and body of each listed commit
+}
 
-  // Handle {{#if var}}...{{/if}} conditionals
-  result = result.replace(/\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g, (match, key, content) => {
-    return (data as any)[key] ? content : '';
+// Collect numstat and recent commits for the prompt (best effort). When
+// amending or rewording, `base` is the parent of the commit being described
+// (`target`, or the index) and only commits before it are listed.
+export function collectPromptContext(stagedOnly: boolean, base?: string, target?: string, git: GitContext = {}): PromptContext {
+  const context: PromptContext = {};
+  try {
+    context.numstat = getNumstat(stagedOnly, base, target, git);
+  } catch (error) {
+    // No HEAD yet or diff failed - per-file stats are optional
+  }
+  try {
+    context.changes = getChangedPaths(stagedOnly, base, target, git);
+  } catch (error) {
+    // Statuses then come from the summary samples
+  }
+  context.recentCommits = getRecentCommits(CONSTANTS.RECENT_COMMITS_COUNT, base, git);
+  return context;
+}
+
+// Work out per-file status from the status summary samples
+function buildFileEntries(summary: StatusSummary, files: string[], numstat: NumstatEntry[], changes: WorkingChange[] = []): FileEntry[] {
+  const statusOf = new Map<string, { status: FileStatus; oldPath: string | null }>();
+  summary.samples.untracked.forEach(f => statusOf.set(f, { status: 'untracked', oldPath: null }));
+  summary.samples.deleted.forEach(f => statusOf.set(f, { status: 'deleted', oldPath: null }));
+  summary.samples.modified.forEach(f => statusOf.set(f, { status: 'modified', oldPath: null }));
+  summary.samples.added.forEach(f => statusOf.set(f, { status: 'added', oldPath: null }));
+  summary.samples.renamed.forEach(f => {
+    const match = f.match(/^(.+?)\s*->\s*(.+)$/);
+    if (match) {
+      statusOf.set(match[2], { status: 'renamed', oldPath: match[1] });
+    }
   });
+  // Files past the sample cap would otherwise all show as modified
+  changes
+    .filter(c => c.status !== 'conflict')
+    .forEach(c => statusOf.set(c.path, { status: c.status as FileStatus, oldPath: c.oldPath }));
+  const renamedFrom = new Set(Array.from(statusOf.values()).map(s => s.oldPath).filter(Boolean));
+  const stats = new Map(numstat.map(entry => [entry.path, entry]));
 
-  return result;
+  return files
+    .filter(f => !renamedFrom.has(f))
+    .map((f) => {
+      const info = statusOf.get(f) || { status: 'modified' as FileStatus, oldPath: null };
+      const stat = stats.get(f);
+      const binary = !!stat && stat.additions === null;
+      const entry: FileEntry = {
+        path: f,
+        status: info.status,
+        oldPath: info.oldPath,
+        additions: stat ? stat.additions : null,
+        deletions: stat ? stat.deletions : null,
+        binary: binary,
+        stat: binary ? 'binary' : (stat ? `+${stat.additions}/-${stat.deletions}` : null)
+      };
+      // {{files}} in older templates still renders as a bullet list
+      Object.defineProperty(entry, 'toString', { value: () => `- ${f}`, enumerable: false });
+      return entry;
+    });
 }
 
-// Load template by name, fallback to default
+// Template names become file names, so keep them simple
+export function validateTemplateName(name: string): void {
+  if (!/^[\w][\w.-]*$/.test(name) || name.length > 64) {
+    throw new ValidationError(
+      `Invalid template name "${name}". Use letters, numbers, ".", "-" and "_" only.`,
+      'template'
+    );
+  }
+}
+
+// Path of a custom template file
+export function getTemplatePath(name: string): string {
+  validateTemplateName(name);
+  return path.join(TEMPLATES_DIR, `${name}.txt`);
+}
+
+// Check whether a template exists (default always does)
+export function templateExists(name: string): boolean {
+  if (name === 'default') {
+    return true;
+  }
+  return fs.existsSync(getTemplatePath(name));
+}
+
+// Load template by name
 export function getTemplate(templateName: string = 'default'): string {
   if (templateName === 'default') {
     return DEFAULT_TEMPLATE;
   }
 
-  const templatePath = path.join(TEMPLATES_DIR, `${templateName}.txt`);
-  if (fs.existsSync(templatePath)) {
-    return fs.readFileSync(templatePath, 'utf8');
+  const templatePath = getTemplatePath(templateName);
+  if (!fs.existsSync(templatePath)) {
+    throw new TemplateError(
+      `Template "${templateName}" not found. Run "gcm template list" to see available templates.`,
+      templateName
+    );
   }
 
-  return DEFAULT_TEMPLATE;
+  return fs.readFileSync(templatePath, 'utf8');
 }
 
 // Get list of available template names
@@ -100,11 +369,15 @@ export function listTemplates(): string[] {
 
 // Save a custom template to disk
 export function saveTemplate(name: string, content: string): void {
+  if (name === 'default') {
+    throw new ValidationError('The default template is built in and cannot be overwritten', 'template');
+  }
+  const templatePath = getTemplatePath(name);
+
   if (!fs.existsSync(TEMPLATES_DIR)) {
     fs.mkdirSync(TEMPLATES_DIR, { recursive: true, mode: 0o700 });
   }
 
-  const templatePath = path.join(TEMPLATES_DIR, `${name}.txt`);
   fs.writeFileSync(templatePath, content, { mode: 0o600 });
 }
 
@@ -114,7 +387,7 @@ export function deleteTemplate(name: string): boolean {
     return false;
   }
 
-  const templatePath = path.join(TEMPLATES_DIR, `${name}.txt`);
+  const templatePath = getTemplatePath(name);
   if (fs.existsSync(templatePath)) {
     fs.unlinkSync(templatePath);
     return true;
@@ -129,7 +402,8 @@ export function buildPromptFromTemplate(
   diff: string,
   files: string[],
   opts: MessageOptions,
-  templateName: string = 'default'
+  templateName: string = 'default',
+  context: PromptContext = {}
 ): string {
   const template = getTemplate(templateName);
 
@@ -147,22 +421,110 @@ export function buildPromptFromTemplate(
     ? `${summary.ahead} ahead, ${summary.behind} behind remote`
     : null;
 
-  const filesList = files.slice(0, CONSTANTS.MAX_FILE_LIST_DISPLAY)
-    .map(f => `- ${f}`)
+  const ignoredFiles = summary.ignored ? (opts.stagedOnly ? summary.ignored.staged : summary.ignored.total) : 0;
+  if (ignoredFiles > 0) changeSummary.push(`${ignoredFiles} generated file(s)`);
+
+  const entries = buildFileEntries(summary, files, context.numstat || [], context.changes);
+  const shown = entries.slice(0, CONSTANTS.MAX_FILE_LIST_DISPLAY);
+  const moreFiles = entries.length - shown.length;
+
+  const filesList = shown
+    .map(f => `- ${f.path}`)
     .join('\n') +
-    (files.length > CONSTANTS.MAX_FILE_LIST_DISPLAY
-      ? `\n... and ${files.length - CONSTANTS.MAX_FILE_LIST_DISPLAY} more file(s)`
-      : '');
+    (moreFiles > 0 ? `\n... and ${moreFiles} more file(s)` : '');
 
+  const candidate = context.candidate || 1;
   const data: TemplateData = {
     branch: summary.branch || 'unknown',
     changes: changeSummary.join(', '),
     branchStatus: branchStatus,
-    files: filesList,
+    files: shown,
+    fileCount: entries.length,
+    moreFiles: moreFiles,
+    ignoredFiles: ignoredFiles,
+    fileList: filesList,
+    additions: entries.reduce((sum, f) => sum + (f.additions || 0), 0),
+    deletions: entries.reduce((sum, f) => sum + (f.deletions || 0), 0),
+    recentCommits: context.recentCommits || [],
     diff: diff || null,
-    maxSubjectLength: CONSTANTS.MAX_SUBJECT_LENGTH,
-    maxBodyLength: CONSTANTS.MAX_BODY_LINE_LENGTH,
+    previousMessage: context.previousMessage || null,
+    currentMessage: context.currentMessage || null,
+    feedback: context.feedback || null,
+    candidate: candidate,
+    candidateCount: context.candidateCount || 1,
+    variation: candidate > 1
+      ? CONSTANTS.CANDIDATE_VARIATIONS[(candidate - 2) % CONSTANTS.CANDIDATE_VARIATIONS.length]
+      : null,
+    stagedOnly: opts.stagedOnly || false,
+    conventional: opts.style !== 'plain',
+    scope: opts.style === 'plain' ? null : inferScope(files, {
+      scopeMap: opts.scopeMap,
+      scopePolicy: opts.scopePolicy,
+      scopes: opts.lint && opts.lint.scopes
+    }, opts.git && opts.git.cwd),
+    scopes: (opts.lint && opts.lint.scopes) || [],
+    maxSubjectLength: (opts.lint && opts.lint.maxSubjectLength) || CONSTANTS.MAX_SUBJECT_LENGTH,
+    maxBodyLength: (opts.lint && opts.lint.maxBodyLineLength) || CONSTANTS.MAX_BODY_LINE_LENGTH,
   };
 
-  return renderTemplate(template, data);
+  try {
+    const used = templateVariables(template);
+    const notes = (Object.keys(REVISION_NOTES) as Array<keyof typeof REVISION_NOTES>)
+      .filter(name => data[name] && !used.has(name))
+      .map(name => render(REVISION_NOTES[name], data).trim());
+    const prompt = render(template, data);
+    return notes.length > 0 ? `${prompt.trimEnd()}\n\n${notes.join('\n\n')}` : prompt;
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throw new TemplateError(`Template "${templateName}": ${error.message}`, templateName);
+    }
+    throw error;
+  }
 }
+
+// Render the pull request prompt; `templateName` picks a custom template
+// instead of the built-in one
+export function buildPrPrompt(
+  summary: StatusSummary,
+  diff: string,
+  files: string[],
+  context: PrContext,
+  templateName?: string
+): string {
+  const template = templateName && templateName !== 'default' ? getTemplate(templateName) : DEFAULT_PR_TEMPLATE;
+  const entries = buildFileEntries(summary, files, context.numstat || []);
+  const shown = entries.slice(0, CONSTANTS.MAX_FILE_LIST_DISPLAY);
+
+  const data: PrTemplateData = {
+    branch: summary.branch || 'unknown',
+    base: context.base,
+    commits: context.commits,
+    commitCount: context.commits.length,
+    files: shown,
+    fileCount: entries.length,
+    moreFiles: entries.length - shown.length,
+    ignoredFiles: summary.ignored ? summary.ignored.total : 0,
+    additions: entries.reduce((sum, f) => sum + (f.additions || 0), 0),
+    deletions: entries.reduce((sum, f) => sum + (f.deletions || 0), 0),
+    diff: diff || null,
+    prTemplate: context.prTemplate || null,
+    maxTitleLength: CONSTANTS.PR_TITLE_MAX_LENGTH
+  };
+
+  try {
+    return render(template, data);
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throw new TemplateError(`Template "${templateName || 'pr'}": ${error.message}`, templateName || 'pr');
+    }
+    throw error;
+  }
+}
+
+// Render the prompt that polishes a generated changelog
+export function buildChangelogPrompt(changelog: string, commits: string[]): string {
+  const data: ChangelogTemplateData = { changelog: changelog.trim(), commits: commits };
+  return render(DEFAULT_CHANGELOG_TEMPLATE, data);
+}
+
+export { TEMPLATES_DIR };
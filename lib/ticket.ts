@@ -0,0 +1,64 @@
+// Ticket references - pull issue keys from the branch name into the message
+
+import { ConfigError } from './errors';
+import { parseCommitMessage, addTrailer, isIgnoredMessage } from './conventional';
+import CONSTANTS from './constants';
+
+export type TicketPlacement = 'trailer' | 'prefix' | 'none';
+
+export interface TicketConfig {
+  patterns?: string[]; // regexes run against the branch; group 1 is the key
+  placement?: TicketPlacement;
+  trailer?: string; // trailer token, "Refs" by default
+}
+
+// Compile branch patterns, naming the bad one
+export function compileTicketPatterns(patterns: readonly string[]): RegExp[] {
+  return patterns.map(source => {
+    try {
+      return new RegExp(source);
+    } catch (error) {
+      throw new ConfigError(`Invalid ticket pattern ${JSON.stringify(source)}: ${(error as Error).message}`);
+    }
+  });
+}
+
+// "feature/PROJ-123-login" -> "PROJ-123", "fix/123-crash" -> "#123"
+export function extractTicket(branch: string | null, config: TicketConfig = {}): string | null {
+  if (!branch || config.placement === 'none') {
+    return null;
+  }
+  const patterns = compileTicketPatterns(config.patterns || CONSTANTS.TICKET_PATTERNS);
+  for (const regex of patterns) {
+    const m = branch.match(regex);
+    if (!m) continue;
+    const key = (m[1] !== undefined ? m[1] : m[0]).trim();
+    if (!key) continue;
+    // Bare numbers are GitHub-style issue references
+    return /^\d+$/.test(key) ? `#${key}` : key;
+  }
+  return null;
+}
+
+// Add the ticket as a trailer or subject prefix, unless it is already in either place
+export function applyTicket(message: string, ticket: string | null, config: TicketConfig = {}): string {
+  if (!ticket || !message.trim() || config.placement === 'none') {
+    return message;
+  }
+  const [header, ...rest] = message.trim().split('\n');
+  const parsed = parseCommitMessage(message);
+  const present = parsed.description.startsWith(ticket) || header.startsWith(ticket) ||
+    parsed.footers.some(f => f.value.split(/[\s,]+/).includes(ticket));
+  if (isIgnoredMessage(header) || present) {
+    return message;
+  }
+
+  if (config.placement === 'prefix') {
+    // Keep "type(scope):" first so the header stays conventional
+    const prefixed = parsed.isConventional
+      ? header.replace(/^([^:]+:\s*)/, `$1${ticket} `)
+      : `${ticket} ${header}`;
+    return [prefixed, ...rest].join('\n');
+  }
+  return addTrailer(message, config.trailer || CONSTANTS.TICKET_TRAILER, ticket);
+}
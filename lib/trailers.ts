@@ -0,0 +1,115 @@
+// Commit trailers - Signed-off-by, Co-authored-by and configured defaults
+
+import { runGitIn, GitContext } from './utils';
+import { GitError, ValidationError } from './errors';
+import { parseCommitMessage } from './conventional';
+
+export interface TrailerOptions {
+  trailers?: string[]; // "Token: value" lines from config, added first
+  coAuthors?: string[]; // "Name <email>" or saved aliases
+  signoff?: boolean;
+}
+
+const IDENTITY_PATTERN = /^[^<>]+ <[^<>\s]+@[^<>\s]+>$/;
+const TRAILER_PATTERN = /^[A-Za-z][\w-]*: \S.*$/;
+
+export function isIdentity(value: string): boolean {
+  return IDENTITY_PATTERN.test(value.trim());
+}
+
+export function isTrailer(value: string): boolean {
+  return TRAILER_PATTERN.test(value.trim());
+}
+
+// "alice" (a saved alias) or "Alice <alice@example.com>" -> identity
+export function resolveCoAuthor(value: string, saved: Record<string, string> = {}): string {
+  const key = value.trim();
+  const alias = Object.keys(saved).find(name => name.toLowerCase() === key.toLowerCase());
+  if (alias) {
+    return saved[alias];
+  }
+  if (!isIdentity(key)) {
+    const known = Object.keys(saved);
+    throw new ValidationError(
+      `Co-author "${key}" must look like "Name <email>"${known.length ? ` or be one of: ${known.join(', ')}` : ''}`,
+      'coAuthor'
+    );
+  }
+  return key;
+}
+
+// Committer identity for Signed-off-by, as git commit -s would write it
+export function getSignoffIdentity(git: GitContext = {}): string {
+  let ident: string;
+  try {
+    ident = runGitIn(git, ['var', 'GIT_COMMITTER_IDENT']).stdout.trim();
+  } catch (error) {
+    throw new GitError('Cannot sign off: set user.name and user.email in git config', error as Error);
+  }
+  // Drop the "<timestamp> <timezone>" suffix
+  return ident.replace(/\s+\d+\s+[+-]\d{4}$/, '');
+}
+
+// Trailer lines in the order they are added; Signed-off-by goes last as with git
+export function buildTrailers(opts: TrailerOptions, saved: Record<string, string> = {}, git: GitContext = {}): string[] {
+  const trailers = [...(opts.trailers || [])];
+  const seen = new Set<string>();
+  for (const value of opts.coAuthors || []) {
+    const identity = resolveCoAuthor(value, saved);
+    if (seen.has(identity)) continue;
+    seen.add(identity);
+    trailers.push(`Co-authored-by: ${identity}`);
+  }
+  if (opts.signoff) {
+    trailers.push(`Signed-off-by: ${getSignoffIdentity(git)}`);
+  }
+  return trailers;
+}
+
+// The trailer lines of an existing message ("Signed-off-by: ...")
+export function getTrailers(message: string, git: GitContext = {}): string[] {
+  if (!message.trim()) {
+    return [];
+  }
+  const result = runGitIn(git, ['interpret-trailers', '--parse'], { input: `${message.trim()}\n` });
+  // Skip lowercase tokens, as appendTrailers does
+  return result.stdout.split('\n').filter(line => /^[A-Z]/.test(line) && isTrailer(line));
+}
+
+export interface MessageParts {
+  subject: string;
+  body: string;
+  trailers: string[];
+}
+
+// Split a message into subject, body and its trailer block. Like
+// appendTrailers, only a final paragraph of capitalized trailers counts.
+export function splitMessage(message: string): MessageParts {
+  const text = message.replace(/\r\n/g, '\n').trim();
+  const [subject = '', ...rest] = text.split('\n');
+  const paragraphs = rest.join('\n').trim().split(/\n\s*\n/).filter(p => p.trim());
+  const footers = paragraphs.length ? parseCommitMessage(text).footers : [];
+  const trailers = footers.length > 0 && footers.every(f => /^[A-Z]/.test(f.token))
+    ? (paragraphs.pop() as string).split('\n')
+    : [];
+  return { subject: subject.trim(), body: paragraphs.join('\n\n'), trailers };
+}
+
+// Append trailers with git interpret-trailers, so placement, blank lines and
+// duplicate handling match what git itself does
+export function appendTrailers(message: string, trailers: string[], git: GitContext = {}): string {
+  if (trailers.length === 0 || !message.trim()) {
+    return message;
+  }
+  const text = message.replace(/\r\n/g, '\n').trim();
+  const args = ['interpret-trailers', '--if-exists', 'addIfDifferent'];
+  trailers.forEach(trailer => args.push('--trailer', trailer));
+
+  // git also takes "modified: a.ts" body lines for trailers; only join blocks
+  // of real (capitalized) trailers, as addTrailer does
+  const footers = text.includes('\n') ? parseCommitMessage(text).footers : [];
+  if (footers.length > 0 && footers.every(f => /^[A-Z]/.test(f.token))) {
+    return runGitIn(git, args, { input: `${text}\n` }).stdout.trim();
+  }
+  return `${text}\n\n${runGitIn(git, args, { input: '' }).stdout.trim()}`;
+}
@@ -1,6 +1,6 @@
 // Utility functions
 import { spawnSync, SpawnSyncOptions } from 'child_process';
-import { GitError } from './errors';
+import { GitError, GCMError } from './errors';
 import CONSTANTS from './constants';
 
 export interface GitResult {
@@ -33,10 +33,25 @@ export function runGit(args: string[], options: SpawnSyncOptions = {}): GitResul
   };
 }
 
+// Runs a git command and throws GitError on failure, as runGit does
+export type GitRunner = (args: string[], options?: SpawnSyncOptions) => GitResult;
+
+// Where git commands run, and what runs them
+export interface GitContext {
+  cwd?: string; // default: the process working directory
+  run?: GitRunner; // default: runGit
+}
+
+// Run a git command in a context's directory with its runner
+export function runGitIn(git: GitContext, args: string[], options: SpawnSyncOptions = {}): GitResult {
+  const run = git.run || runGit;
+  return run(args, git.cwd ? { cwd: git.cwd, ...options } : options);
+}
+
 // Check if we're in a git repo
-export function isInsideRepo(): boolean {
+export function isInsideRepo(git: GitContext = {}): boolean {
   try {
-    const result = runGit(['rev-parse', '--is-inside-work-tree']);
+    const result = runGitIn(git, ['rev-parse', '--is-inside-work-tree']);
     return result.stdout.trim() === 'true';
   } catch (error) {
     return false;
@@ -105,3 +120,60 @@ export function truncate(str: string, maxLength: number, suffix: string = '...')
   }
   return str.substring(0, maxLength - suffix.length) + suffix;
 }
+
+// Human readable byte size
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Magic numbers of common binary formats
+const FILE_SIGNATURES: { bytes: number[]; type: string }[] = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], type: 'PNG image' },
+  { bytes: [0xff, 0xd8, 0xff], type: 'JPEG image' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], type: 'GIF image' },
+  { bytes: [0x52, 0x49, 0x46, 0x46], type: 'RIFF media (WebP/WAV/AVI)' },
+  { bytes: [0x25, 0x50, 0x44, 0x46], type: 'PDF document' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], type: 'ZIP archive' },
+  { bytes: [0x1f, 0x8b], type: 'gzip archive' },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], type: 'WebAssembly module' },
+  { bytes: [0x77, 0x4f, 0x46], type: 'WOFF font' },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], type: 'ELF executable' },
+  { bytes: [0x00, 0x00, 0x01, 0x00], type: 'ICO image' }
+];
+
+// Git's heuristic: a NUL byte in the first 8000 bytes means binary
+export function isBinaryBuffer(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+// Describe a binary file by its signature, falling back to the extension
+export function describeFileType(buffer: Buffer, filePath: string): string {
+  const match = FILE_SIGNATURES.find(sig => sig.bytes.every((b, i) => buffer[i] === b));
+  if (match) {
+    return match.type;
+  }
+  const ext = filePath.includes('.') ? filePath.split('.').pop() : '';
+  return ext ? `${ext.toLowerCase()} file` : 'binary file';
+}
+
+// Read all of stdin (for piped input)
+export function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', (chunk: string) => { data += chunk; });
+    process.stdin.on('end', () => resolve(data));
+    process.stdin.on('error', reject);
+  });
+}
+
+// Open a file in the user's editor and wait for it to close
+export function openInEditor(filePath: string): void {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const res = spawnSync(`${editor} "${filePath}"`, { stdio: 'inherit', shell: true });
+  if (res.error || res.status !== 0) {
+    throw new GCMError(`Editor "${editor}" exited with an error`, 'EDITOR_ERROR', res.error);
+  }
+}